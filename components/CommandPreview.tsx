@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { FIELD_LABELS } from '../services/commands';
+import { formatDate } from '../utils/dates';
+
+const KIND_LABELS = { create: 'New job', update: 'Update', delete: 'Delete' };
+
+const formatValue = (field, value) => {
+    if (!value) return '—';
+    return field === 'startDate' || field === 'dueDate' ? formatDate(value) : value;
+};
+
+// What a hub command would change, field by field. Nothing is saved until it's applied, and
+// individual changes can be left out.
+export const CommandPreview = ({ plan, isApplying, onApply, onCancel }) => {
+    const [selected, setSelected] = useState(() => new Set(plan.changes.map((_, index) => index)));
+
+    const toggle = (index) => {
+        const next = new Set(selected);
+        next.has(index) ? next.delete(index) : next.add(index);
+        setSelected(next);
+    };
+
+    const handleApply = () => onApply(plan.changes.filter((_, index) => selected.has(index)));
+
+    return html`
+        <div class="command-preview">
+            <h2>Review changes</h2>
+            ${plan.warnings.length > 0 && html`
+                <ul class="command-warnings">
+                    ${plan.warnings.map(warning => html`<li>${warning}</li>`)}
+                </ul>
+            `}
+            <ul class="command-changes">
+                ${plan.changes.map((change, index) => html`
+                    <li class="command-change command-${change.kind}" key=${index}>
+                        <label class="command-change-header">
+                            <input type="checkbox" checked=${selected.has(index)} onChange=${() => toggle(index)} disabled=${isApplying} />
+                            <span class="command-kind">${KIND_LABELS[change.kind]}</span>
+                            <strong>${change.task.name}</strong>
+                        </label>
+                        <p class="command-summary">${change.summary}</p>
+                        ${change.diff.length > 0 && html`
+                            <table class="command-diff">
+                                <tbody>
+                                    ${change.diff.map(c => html`
+                                        <tr key=${c.field}>
+                                            <th>${FIELD_LABELS[c.field]}</th>
+                                            ${change.kind !== 'create' && html`<td class="diff-from">${formatValue(c.field, c.from)}</td>`}
+                                            <td class="diff-to">${formatValue(c.field, c.to)}</td>
+                                        </tr>
+                                    `)}
+                                </tbody>
+                            </table>
+                        `}
+                    </li>
+                `)}
+            </ul>
+            <div class="command-actions">
+                <button class="secondary-button" onClick=${onCancel} disabled=${isApplying}>Cancel</button>
+                <button class="apply-button" onClick=${handleApply} disabled=${isApplying || selected.size === 0}>
+                    ${isApplying ? 'Applying...' : `Apply ${selected.size} ${selected.size === 1 ? 'change' : 'changes'}`}
+                </button>
+            </div>
+        </div>
+    `;
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { html } from 'htm/preact';
+import { prerequisitesOf, possiblePrerequisites } from '../services/dependencies';
+import { isDone } from '../utils/status';
+
+// The sub-tasks this one waits on, each removable, and a picker to add another. Sub-tasks
+// that already wait on this one aren't offered, so links can't go round in a loop.
+export const DependsOnCell = ({ subTask, subTasks, onChange }) => {
+    const prerequisites = prerequisitesOf(subTask, subTasks);
+    const options = possiblePrerequisites(subTask, subTasks);
+
+    return html`
+        <div class="depends-on-cell">
+            ${prerequisites.map(st => html`
+                <span class="dependency-chip ${isDone(st.status) ? 'done' : ''}" key=${st.id}>
+                    ${isDone(st.status) ? '✓ ' : ''}${st.name}
+                    <button
+                        class="dependency-remove"
+                        onClick=${() => onChange(subTask.dependsOn.filter(id => id !== st.id))}
+                        aria-label="Stop waiting on ${st.name}"
+                    >×</button>
+                </span>
+            `)}
+            ${options.length > 0 && html`
+                <select
+                    value=""
+                    onChange=${(e) => {
+                        const id = e.currentTarget.value;
+                        e.currentTarget.value = '';
+                        if (id) onChange([...subTask.dependsOn, id]);
+                    }}
+                    aria-label="Add a sub-task ${subTask.name} depends on"
+                >
+                    <option value="">＋ After...</option>
+                    ${options.map(st => html`<option value=${st.id}>${st.name}</option>`)}
+                </select>
+            `}
+        </div>
+    `;
+};
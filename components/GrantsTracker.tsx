@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { GRANT_STAGES, normalizeStage, parseAmount, parseDateList, formatAmount } from '../services/grants';
+import { canonicalAssignee } from '../services/roster';
+import { isValidIsoDate } from '../utils/dates';
+
+const EMPTY_GRANT = { name: '', funder: '', owner: '', amountRequested: '', submissionDeadline: '' };
+
+// A text input that saves on blur, and only when the value actually changed. Values may be
+// numbers or empty, so they're compared as the text the input shows.
+const GrantInput = ({ value, onSave, type = 'text', placeholder = '', list = undefined }) => html`
+    <input
+        key=${value}
+        type=${type}
+        class="editable-text"
+        list=${list}
+        placeholder=${placeholder}
+        defaultValue=${value}
+        onBlur=${(e) => e.currentTarget.value !== String(value ?? '') && onSave(e.currentTarget.value)}
+    />
+`;
+
+/**
+ * The grant pipeline: totals per stage, and every grant with its funder, amounts, deadlines
+ * and contact, all editable in place.
+ */
+export const GrantsTracker = ({ grants, roster, isLoading, notice, onAddGrant, onUpdateGrant }) => {
+    const [draft, setDraft] = useState(EMPTY_GRANT);
+    const [isAdding, setIsAdding] = useState(false);
+
+    const update = (grant, changes) => onUpdateGrant({ ...grant, ...changes });
+
+    const handleAdd = async (e) => {
+        e.preventDefault();
+        if (!draft.name.trim()) return;
+        setIsAdding(true);
+        try {
+            await onAddGrant({
+                name: draft.name.trim(),
+                funder: draft.funder.trim(),
+                owner: canonicalAssignee(roster, draft.owner),
+                amountRequested: parseAmount(draft.amountRequested),
+                amountAwarded: null,
+                stage: 'Researching',
+                submissionDeadline: isValidIsoDate(draft.submissionDeadline) ? draft.submissionDeadline : null,
+                reportingDeadlines: [],
+                contact: '',
+                notes: null,
+            });
+            setDraft(EMPTY_GRANT);
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const stageTotals = GRANT_STAGES.map(stage => {
+        const inStage = grants.filter(g => normalizeStage(g.stage) === stage);
+        return {
+            stage,
+            count: inStage.length,
+            requested: inStage.reduce((sum, g) => sum + (g.amountRequested || 0), 0),
+            awarded: inStage.reduce((sum, g) => sum + (g.amountAwarded || 0), 0),
+        };
+    });
+
+    return html`
+        <div class="grants-tracker">
+            <div class="grant-pipeline">
+                ${stageTotals.map(({ stage, count, requested, awarded }) => html`
+                    <div class="grant-stage-summary" key=${stage}>
+                        <span class="grant-stage-name">${stage}</span>
+                        <strong>${count}</strong>
+                        <span>${formatAmount(requested)} requested</span>
+                        ${stage === 'Decision' && html`<span>${formatAmount(awarded)} awarded</span>`}
+                    </div>
+                `)}
+            </div>
+
+            ${notice && html`<div class="feedback small roster-notice">${notice}</div>`}
+            ${isLoading && !grants.length && html`<div class="feedback loading">Loading grants...</div>`}
+
+            <div class="grants-table-container">
+                <table class="grants-table">
+                    <thead>
+                        <tr>
+                            <th>Grant / Funder</th>
+                            <th>Owner</th>
+                            <th>Stage</th>
+                            <th>Requested / Awarded</th>
+                            <th>Submission Deadline</th>
+                            <th>Reporting Deadlines</th>
+                            <th>Contact</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${grants.map(grant => html`
+                            <tr key=${grant.id}>
+                                <td>
+                                    <${GrantInput} value=${grant.name} onSave=${(name) => name.trim() && update(grant, { name: name.trim() })} />
+                                    <${GrantInput} value=${grant.funder} placeholder="Funder" onSave=${(funder) => update(grant, { funder })} />
+                                </td>
+                                <td>
+                                    <${GrantInput} value=${grant.owner} list="grant-owner-options" placeholder="Unassigned" onSave=${(owner) => update(grant, { owner: canonicalAssignee(roster, owner) })} />
+                                </td>
+                                <td>
+                                    <select class="grant-stage stage-${normalizeStage(grant.stage).toLowerCase()}" value=${normalizeStage(grant.stage)} onChange=${(e) => update(grant, { stage: e.currentTarget.value })}>
+                                        ${GRANT_STAGES.map(stage => html`<option value=${stage}>${stage}</option>`)}
+                                    </select>
+                                </td>
+                                <td>
+                                    <${GrantInput} value=${grant.amountRequested ?? ''} placeholder="Requested" onSave=${(value) => update(grant, { amountRequested: parseAmount(value) })} />
+                                    <${GrantInput} value=${grant.amountAwarded ?? ''} placeholder="Awarded" onSave=${(value) => update(grant, { amountAwarded: parseAmount(value) })} />
+                                </td>
+                                <td>
+                                    <${GrantInput} type="date" value=${grant.submissionDeadline || ''} onSave=${(value) => update(grant, { submissionDeadline: value || null })} />
+                                </td>
+                                <td>
+                                    <${GrantInput}
+                                        value=${grant.reportingDeadlines.join(', ')}
+                                        placeholder="YYYY-MM-DD, ..."
+                                        onSave=${(value) => update(grant, { reportingDeadlines: parseDateList(value) })}
+                                    />
+                                </td>
+                                <td>
+                                    <${GrantInput} value=${grant.contact} placeholder="Name or email" onSave=${(contact) => update(grant, { contact })} />
+                                </td>
+                            </tr>
+                        `)}
+                    </tbody>
+                </table>
+            </div>
+
+            <form class="grant-add-form" onSubmit=${handleAdd}>
+                <input type="text" class="editable-text" placeholder="New grant" value=${draft.name} onInput=${(e) => setDraft({ ...draft, name: e.currentTarget.value })} />
+                <input type="text" class="editable-text" placeholder="Funder" value=${draft.funder} onInput=${(e) => setDraft({ ...draft, funder: e.currentTarget.value })} />
+                <input type="text" class="editable-text" placeholder="Owner" list="grant-owner-options" value=${draft.owner} onInput=${(e) => setDraft({ ...draft, owner: e.currentTarget.value })} />
+                <input type="text" class="editable-text" placeholder="Amount requested" value=${draft.amountRequested} onInput=${(e) => setDraft({ ...draft, amountRequested: e.currentTarget.value })} />
+                <input type="date" class="editable-text" value=${draft.submissionDeadline} onInput=${(e) => setDraft({ ...draft, submissionDeadline: e.currentTarget.value })} aria-label="Submission deadline" />
+                <button type="submit" class="secondary-button" disabled=${isAdding || !draft.name.trim()}>${isAdding ? 'Adding...' : '＋ Add grant'}</button>
+            </form>
+            <datalist id="grant-owner-options">
+                ${roster.map(member => html`<option value=${member.name} />`)}
+            </datalist>
+        </div>
+    `;
+};
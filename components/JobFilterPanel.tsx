@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { PRIORITIES } from '../services/commands';
+import { SORT_OPTIONS, DEFAULT_FILTERS, hasActiveFilters } from '../services/jobFilters';
+import { STATUSES } from '../utils/status';
+
+// Adds the value to the list, or takes it out if it's already there.
+const toggle = (list, value) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+// Search box, sort order and the filters beyond the assignee buttons. The filters live in the
+// URL, so "Copy link" shares exactly this view.
+export const JobFilterPanel = ({ filters, onChange, resultCount }) => {
+    const [isOpen, setIsOpen] = useState(() => hasActiveFilters({ ...filters, query: '', assignee: 'all' }));
+    const [copyText, setCopyText] = useState('Copy link');
+    const set = (changes) => onChange({ ...filters, ...changes });
+
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(window.location.href).then(() => {
+            setCopyText('Copied!');
+            setTimeout(() => setCopyText('Copy link'), 2000);
+        });
+    };
+
+    return html`
+        <div class="job-filter-panel">
+            <div class="job-search-row">
+                <input
+                    type="search"
+                    class="job-search"
+                    placeholder="Search names and notes..."
+                    value=${filters.query}
+                    onInput=${(e) => set({ query: e.currentTarget.value })}
+                    aria-label="Search jobs"
+                />
+                <select value=${filters.sort} onChange=${(e) => set({ sort: e.currentTarget.value })} aria-label="Sort jobs by">
+                    ${Object.entries(SORT_OPTIONS).map(([key, label]) => html`<option value=${key}>Sort: ${label}</option>`)}
+                </select>
+                <button class="secondary-button" onClick=${() => setIsOpen(!isOpen)} aria-expanded=${isOpen}>
+                    ${isOpen ? 'Hide filters' : 'More filters'}
+                </button>
+            </div>
+            ${isOpen && html`
+                <div class="job-filter-options">
+                    <div class="filter-group">
+                        <span class="filter-group-label">Priority</span>
+                        ${PRIORITIES.map(priority => html`
+                            <button
+                                class="filter-chip ${filters.priorities.includes(priority) ? 'active' : ''}"
+                                onClick=${() => set({ priorities: toggle(filters.priorities, priority) })}
+                                aria-pressed=${filters.priorities.includes(priority)}
+                            >${priority}</button>
+                        `)}
+                    </div>
+                    <div class="filter-group">
+                        <span class="filter-group-label">Status</span>
+                        ${STATUSES.map(status => html`
+                            <button
+                                class="filter-chip ${filters.statuses.includes(status) ? 'active' : ''}"
+                                onClick=${() => set({ statuses: toggle(filters.statuses, status) })}
+                                aria-pressed=${filters.statuses.includes(status)}
+                            >${status}</button>
+                        `)}
+                    </div>
+                    <div class="filter-group">
+                        <span class="filter-group-label">Due</span>
+                        <input type="date" value=${filters.dueFrom} onInput=${(e) => set({ dueFrom: e.currentTarget.value })} aria-label="Due from" />
+                        <span>to</span>
+                        <input type="date" value=${filters.dueTo} onInput=${(e) => set({ dueTo: e.currentTarget.value })} aria-label="Due to" />
+                        <label><input type="checkbox" checked=${filters.overdue} onChange=${(e) => set({ overdue: e.currentTarget.checked })} /> Overdue</label>
+                        <label><input type="checkbox" checked=${filters.noDueDate} onChange=${(e) => set({ noDueDate: e.currentTarget.checked })} /> No due date</label>
+                    </div>
+                </div>
+            `}
+            <div class="job-filter-summary">
+                <span>${resultCount} ${resultCount === 1 ? 'job' : 'jobs'}</span>
+                ${hasActiveFilters(filters) && html`
+                    <button class="link-button" onClick=${() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}>Clear filters</button>
+                `}
+                <button class="link-button" onClick=${handleCopyLink}>${copyText}</button>
+            </div>
+        </div>
+    `;
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect, useRef } from 'preact/hooks';
+import type { Task } from '../types';
+import { html } from 'htm/preact';
+import { STATUSES, normalizeStatus, canTransition, type Status } from '../utils/status';
+import { formatDate } from '../utils/dates';
+
+const OTHER_COLUMN = 'Other';
+
+/**
+ * Live Jobs as columns by status. Dragging a card onto another column changes its status. From
+ * the keyboard, Space picks a card up, the arrow keys choose a column, and Space or Enter puts
+ * it down there (Escape cancels); Enter on a card that isn't picked up opens it.
+ */
+export const KanbanBoard = ({ tasks, onStatusChange, onTaskClick }) => {
+    const [draggedTask, setDraggedTask] = useState(null);
+    const [dropTarget, setDropTarget] = useState(null);
+    // Whether the card being moved was picked up from the keyboard rather than dragged.
+    const [isKeyboardMove, setIsKeyboardMove] = useState(false);
+    const [announcement, setAnnouncement] = useState('');
+    const boardRef = useRef<HTMLDivElement>(null);
+    // The job to keep focused once its card has moved to another column.
+    const focusUid = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!focusUid.current) return;
+        boardRef.current?.querySelector<HTMLElement>(`[data-uid="${CSS.escape(focusUid.current)}"]`)?.focus();
+        focusUid.current = null;
+    });
+
+    const columns: { status: string; tasks: Task[] }[] = STATUSES.map(status => ({
+        status,
+        tasks: tasks.filter(task => normalizeStatus(task.status) === status),
+    }));
+    // Jobs whose status isn't part of the workflow still need somewhere to show up.
+    const unrecognised = tasks.filter(task => !normalizeStatus(task.status));
+    if (unrecognised.length) {
+        columns.push({ status: OTHER_COLUMN, tasks: unrecognised });
+    }
+
+    const canDropOn = (status: string) =>
+        draggedTask && status !== OTHER_COLUMN && normalizeStatus(draggedTask.status) !== status && canTransition(draggedTask.status, status as Status);
+
+    const handleDragStart = (e, task) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(task.id));
+        setDraggedTask(task);
+    };
+
+    const handleDragEnd = () => {
+        setDraggedTask(null);
+        setDropTarget(null);
+        setIsKeyboardMove(false);
+    };
+
+    const handleDragOver = (e, status) => {
+        if (!canDropOn(status)) return;
+        e.preventDefault(); // Allows the drop
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(status);
+    };
+
+    const handleDrop = (e, status) => {
+        e.preventDefault();
+        if (canDropOn(status)) {
+            onStatusChange(draggedTask, status);
+        }
+        handleDragEnd();
+    };
+
+    const handleCardKeyDown = (e, task) => {
+        if (!isKeyboardMove) {
+            if (e.key === ' ') {
+                e.preventDefault();
+                const from = normalizeStatus(task.status) || OTHER_COLUMN;
+                setDraggedTask(task);
+                setDropTarget(from);
+                setIsKeyboardMove(true);
+                setAnnouncement(`Picked up "${task.name}" from ${from}. Choose a column with the arrow keys, then press Space to move it there, or Escape to cancel.`);
+            } else if (e.key === 'Enter') {
+                onTaskClick(task);
+            }
+            return;
+        }
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            e.preventDefault();
+            // The card's own column, and the ones its status can move to.
+            const from = normalizeStatus(draggedTask.status) || OTHER_COLUMN;
+            const targets = columns.map(c => c.status).filter(status => status === from || canDropOn(status));
+            const next = targets[targets.indexOf(dropTarget) + (e.key === 'ArrowRight' ? 1 : -1)];
+            if (next) {
+                setDropTarget(next);
+                setAnnouncement(next === from ? `Back over ${from}.` : `Over ${next}.`);
+            }
+        } else if (e.key === ' ' || e.key === 'Enter') {
+            e.preventDefault();
+            if (canDropOn(dropTarget)) {
+                focusUid.current = draggedTask.uid;
+                onStatusChange(draggedTask, dropTarget);
+                setAnnouncement(`Moved "${draggedTask.name}" to ${dropTarget}.`);
+            } else {
+                setAnnouncement(`"${draggedTask.name}" was left where it was.`);
+            }
+            handleDragEnd();
+        } else if (e.key === 'Escape' || e.key === 'Tab') {
+            setAnnouncement(`"${draggedTask.name}" was left where it was.`);
+            handleDragEnd();
+        }
+    };
+
+    return html`
+        <div class="kanban-board" ref=${boardRef}>
+            ${columns.map(column => html`
+                <section
+                    key=${column.status}
+                    class="kanban-column ${dropTarget === column.status ? 'drop-target' : ''} ${draggedTask && !canDropOn(column.status) ? 'drop-disabled' : ''}"
+                    onDragOver=${(e) => handleDragOver(e, column.status)}
+                    onDragLeave=${() => setDropTarget(null)}
+                    onDrop=${(e) => handleDrop(e, column.status)}
+                    aria-label="${column.status} jobs"
+                >
+                    <h3>${column.status} <span class="kanban-count">${column.tasks.length}</span></h3>
+                    <ul class="kanban-cards">
+                        ${column.tasks.map(task => html`
+                            <li
+                                key=${task.id}
+                                data-uid=${task.uid}
+                                class="kanban-card priority-${task.priority.replace(/\s+/g, '-').toLowerCase()} ${isKeyboardMove && draggedTask === task ? 'picked-up' : ''}"
+                                draggable="true"
+                                onDragStart=${(e) => handleDragStart(e, task)}
+                                onDragEnd=${handleDragEnd}
+                                onClick=${() => onTaskClick(task)}
+                                onKeyDown=${(e) => handleCardKeyDown(e, task)}
+                                onBlur=${() => isKeyboardMove && handleDragEnd()}
+                                role="button"
+                                tabindex="0"
+                                aria-label="${task.name}. Press Enter to view details, or Space to move it to another column."
+                                aria-pressed=${isKeyboardMove && draggedTask === task}
+                            >
+                                <span class="name">${task.name}</span>
+                                <span class="kanban-card-meta">
+                                    <span class="priority">${task.priority}</span>
+                                    ${task.dueDate && html`<span class="due-date">${formatDate(task.dueDate)}</span>`}
+                                </span>
+                            </li>
+                        `)}
+                    </ul>
+                </section>
+            `)}
+            <div class="visually-hidden" role="status" aria-live="polite">${announcement}</div>
+        </div>
+    `;
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { LEAD_TIME_OPTIONS } from '../services/deadlines';
+import { DUE_LABELS } from '../utils/deadlines';
+import { notificationsSupported } from '../utils/notifications';
+import { formatDate } from '../utils/dates';
+
+const GROUPS = ['overdue', 'today', 'week'];
+
+// The signed-in member's overdue, due-today and due-this-week work, with the settings for
+// deadline notifications. When the sign-in can't be matched to the roster (or nobody signs
+// in, as in the demo workspace) the member is picked from the roster instead.
+export const MyDay = ({ member, isIdentified, roster, items, settings, onSettingsChange, onChooseMember, onOpen }) => {
+    const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : 'unsupported'));
+
+    const toggleNotifications = async (enabled) => {
+        if (enabled && permission !== 'granted') {
+            const result = await Notification.requestPermission();
+            setPermission(result);
+            if (result !== 'granted') return;
+        }
+        onSettingsChange({ ...settings, enabled });
+    };
+
+    const toggleLeadDay = (days) => onSettingsChange({
+        ...settings,
+        leadDays: settings.leadDays.includes(days) ? settings.leadDays.filter(d => d !== days) : [...settings.leadDays, days],
+    });
+
+    return html`
+        <section class="my-day">
+            <div class="my-day-header">
+                <h2>My day${member ? html` · <span>${member}</span>` : ''}</h2>
+                ${!isIdentified && roster.length > 0 && html`
+                    <select value=${member} onChange=${(e) => onChooseMember(e.currentTarget.value)} aria-label="Show the day for">
+                        <option value="">Who are you?</option>
+                        ${roster.map(m => html`<option value=${m.name}>${m.name}</option>`)}
+                    </select>
+                `}
+            </div>
+            ${!member && html`<p class="feedback small">${roster.length ? 'Pick yourself from the team to see your deadlines.' : 'Add a team roster to see your own deadlines.'}</p>`}
+            ${member && !items.length && html`<p class="feedback small">Nothing overdue or due this week. 🎉</p>`}
+            ${member && GROUPS.map(state => {
+                const inGroup = items.filter(item => item.state === state);
+                return inGroup.length > 0 && html`
+                    <div class="my-day-group due-${state}" key=${state}>
+                        <h3>${DUE_LABELS[state]} (${inGroup.length})</h3>
+                        <ul>
+                            ${inGroup.map(item => html`
+                                <li key=${item.key}>
+                                    <button class="link-button" onClick=${() => onOpen(item)}>
+                                        ${item.name}${!item.isJob && html`<span class="my-day-project"> · ${item.project}</span>`}
+                                    </button>
+                                    <span class="due-date">${formatDate(item.dueDate)}</span>
+                                </li>
+                            `)}
+                        </ul>
+                    </div>
+                `;
+            })}
+            ${member && permission !== 'unsupported' && html`
+                <div class="notification-settings">
+                    <label>
+                        <input type="checkbox" checked=${settings.enabled && permission === 'granted'} disabled=${permission === 'denied'} onChange=${(e) => toggleNotifications(e.currentTarget.checked)} />
+                        Notify me about my deadlines while the hub is open
+                    </label>
+                    ${permission === 'denied' && html`<span class="feedback small">Notifications are blocked for this site in your browser settings.</span>`}
+                    ${settings.enabled && permission === 'granted' && html`
+                        <div class="filter-group">
+                            ${LEAD_TIME_OPTIONS.map(({ days, label }) => html`
+                                <button class="filter-chip ${settings.leadDays.includes(days) ? 'active' : ''}" onClick=${() => toggleLeadDay(days)} aria-pressed=${settings.leadDays.includes(days)}>${label}</button>
+                            `)}
+                            <button class="filter-chip ${settings.overdue ? 'active' : ''}" onClick=${() => onSettingsChange({ ...settings, overdue: !settings.overdue })} aria-pressed=${settings.overdue}>Daily when overdue</button>
+                        </div>
+                    `}
+                </div>
+            `}
+        </section>
+    `;
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { HUB_SHEET_NAME } from '../services/sheetsRepository';
+import { fieldLabel } from '../services/auditedRepository';
+
+// Only the latest changes are shown; the full log stays in the sheet.
+const MAX_SHOWN = 100;
+
+const formatTimestamp = (value: string) =>
+    new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Everything logged against a job: edits to its row on the Hub and to its tab's sub-tasks.
+// Loaded when opened, and again whenever `refreshKey` changes.
+export const ProjectHistory = ({ projectName, repository, refreshKey }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [entries, setEntries] = useState(null);
+    const [error, setError] = useState(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setError(null);
+        repository.listAudit()
+            .then(all => {
+                if (cancelled) return;
+                setEntries(all
+                    .filter(e => e.sheet === projectName || (e.sheet === HUB_SHEET_NAME && e.record === projectName))
+                    .reverse()
+                    .slice(0, MAX_SHOWN));
+            })
+            .catch(err => {
+                console.error('Failed to load project history:', err);
+                if (!cancelled) setError('Could not load the history. Please try again.');
+            });
+        return () => { cancelled = true; };
+    }, [isOpen, projectName, repository, refreshKey]);
+
+    return html`
+        <section class="project-history">
+            <button class="secondary-button" onClick=${() => setIsOpen(!isOpen)} aria-expanded=${isOpen}>
+                ${isOpen ? 'Hide history' : 'Show history'}
+            </button>
+            ${isOpen && error && html`<div class="feedback error small">${error}</div>`}
+            ${isOpen && !error && !entries && html`<div class="feedback loading small">Loading history...</div>`}
+            ${isOpen && entries && !entries.length && html`<div class="feedback small">No changes have been made through the hub yet.</div>`}
+            ${isOpen && entries?.length > 0 && html`
+                <table class="history-table">
+                    <thead>
+                        <tr><th>When</th><th>Who</th><th>What</th><th>Change</th></tr>
+                    </thead>
+                    <tbody>
+                        ${entries.map((entry, i) => html`
+                            <tr key=${`${entry.changeId}-${i}`}>
+                                <td>${formatTimestamp(entry.timestamp)}</td>
+                                <td>${entry.user || 'Unknown'}</td>
+                                <td>${entry.sheet === HUB_SHEET_NAME ? 'Job' : entry.record} · ${fieldLabel(entry.sheet === HUB_SHEET_NAME ? 'task' : 'subTask', entry.field)}</td>
+                                <td>
+                                    ${entry.oldValue && html`<span class="diff-from">${entry.oldValue}</span>`}
+                                    ${entry.oldValue && entry.newValue && ' → '}
+                                    ${entry.newValue && html`<span class="diff-to">${entry.newValue}</span>`}
+                                </td>
+                            </tr>
+                        `)}
+                    </tbody>
+                </table>
+            `}
+        </section>
+    `;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { html } from 'htm/preact';
+import { parseRecurrence, formatRecurrence, nthWeekdayOf, WEEKDAYS, NTH_LABELS } from '../services/recurrence';
+import { isValidIsoDate, todayIso } from '../utils/dates';
+
+// Picks a repeat rule for a job or sub-task and hands it back as the text stored in its Repeat
+// column. Monthly rules start on the same week and weekday as the due date.
+export const RecurrenceSelect = ({ value, dueDate, onChange, label }) => {
+    const rule = parseRecurrence(value);
+    const save = (next) => onChange(formatRecurrence(next));
+
+    const setFrequency = (frequency) => {
+        if (!frequency) return save(null);
+        if (frequency !== 'monthly') return save({ frequency, until: rule?.until || null });
+        const { nth, weekday } = nthWeekdayOf(isValidIsoDate(dueDate) ? dueDate : todayIso());
+        save({ frequency, nth: Math.min(nth, 4), weekday, until: rule?.until || null });
+    };
+
+    return html`
+        <span class="recurrence-select">
+            <select value=${rule?.frequency || (value ? 'unknown' : '')} onChange=${(e) => setFrequency(e.currentTarget.value)} aria-label=${label}>
+                <option value="">Doesn't repeat</option>
+                <option value="weekly">Weekly</option>
+                <option value="fortnightly">Fortnightly</option>
+                <option value="monthly">Monthly</option>
+                ${!rule && value && html`<option value="unknown" disabled>"${value}" (not understood)</option>`}
+            </select>
+            ${rule?.frequency === 'monthly' && rule.weekday !== undefined && html`
+                <span>on the</span>
+                <select value=${String(rule.nth)} onChange=${(e) => save({ ...rule, nth: Number(e.currentTarget.value) })} aria-label="Week of the month">
+                    ${Object.entries(NTH_LABELS).map(([nth, text]) => html`<option value=${nth}>${text}</option>`)}
+                </select>
+                <select value=${String(rule.weekday)} onChange=${(e) => save({ ...rule, weekday: Number(e.currentTarget.value) })} aria-label="Day of the week">
+                    ${WEEKDAYS.map((day, index) => html`<option value=${String(index)}>${day}</option>`)}
+                </select>
+            `}
+            ${rule && html`
+                <span>until</span>
+                <input
+                    type="date"
+                    class="editable-text"
+                    value=${rule.until || ''}
+                    onChange=${(e) => save({ ...rule, until: e.currentTarget.value || null })}
+                    aria-label="Repeat until"
+                />
+            `}
+        </span>
+    `;
+};
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { TEMPLATE_ANCHORS, BUILT_IN_TEMPLATES, templateLibrary, applyTemplate, projectToTemplate } from '../services/templates';
+import { isValidIsoDate, formatDate } from '../utils/dates';
+
+const earliestDueDate = (subTasks) =>
+    subTasks.map(st => st.dueDate).filter(isValidIsoDate).sort()[0] || '';
+
+// Fills a project tab from a template in one write, or saves the project's sub-tasks as a new
+// template. Templates saved to the sheet sit alongside the built-in ones.
+export const TemplatePanel = ({ task, subTasks, roster, repository, onApplied }) => {
+    const [saved, setSaved] = useState(null);
+    const [loadError, setLoadError] = useState(false);
+    const [selectedName, setSelectedName] = useState('');
+    const [anchorDate, setAnchorDate] = useState(task.startDate || '');
+    const [isApplying, setIsApplying] = useState(false);
+    const [isSaveOpen, setIsSaveOpen] = useState(false);
+    const [saveName, setSaveName] = useState(task.name);
+    const [saveAnchor, setSaveAnchor] = useState(TEMPLATE_ANCHORS[0]);
+    const [saveAnchorDate, setSaveAnchorDate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadTemplates = () => repository.listTemplates()
+        .then(templates => {
+            setSaved(templates);
+            setLoadError(false);
+        })
+        .catch(err => {
+            console.error('Failed to load templates:', err);
+            setSaved([]);
+            setLoadError(true);
+        });
+
+    useEffect(() => {
+        loadTemplates();
+    }, [repository]);
+
+    const library = saved ? templateLibrary(saved) : BUILT_IN_TEMPLATES;
+    const template = library.find(t => t.name === selectedName);
+    const preview = template ? applyTemplate(template, anchorDate, roster) : [];
+
+    const handleApply = async () => {
+        if (!template || isApplying) return;
+        if (anchorDate && !isValidIsoDate(anchorDate)) {
+            alert(`Please enter the ${template.anchor.toLowerCase()} as YYYY-MM-DD.`);
+            return;
+        }
+        if (subTasks.length && !confirm(`Add ${preview.length} sub-tasks from "${template.name}" alongside the ${subTasks.length} already in "${task.name}"?`)) {
+            return;
+        }
+        setIsApplying(true);
+        try {
+            await repository.addSubTasks(task.name, preview);
+            setSelectedName('');
+            await onApplied();
+        } catch (err) {
+            console.error('Failed to apply template:', err);
+            alert('Could not add the template\'s sub-tasks. Please try again.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const openSave = () => {
+        setSaveName(task.name);
+        setSaveAnchorDate(task.startDate || earliestDueDate(subTasks));
+        setIsSaveOpen(true);
+    };
+
+    const handleSave = async () => {
+        const name = saveName.trim();
+        if (!name || isSaving) return;
+        if ((saved || []).some(t => t.name.toLowerCase() === name.toLowerCase())) {
+            alert(`There is already a template named "${name}". Choose another name.`);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await repository.addTemplate(projectToTemplate(name, saveAnchor, saveAnchorDate, subTasks, roster));
+            await loadTemplates();
+            setIsSaveOpen(false);
+            setSelectedName(name);
+        } catch (err) {
+            console.error('Failed to save template:', err);
+            alert('Could not save the template. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return html`
+        <section class="template-panel">
+            <h2>📋 Templates</h2>
+            <p>Start from a standard run of sub-tasks, dated from the ${template ? template.anchor.toLowerCase() : 'shoot or start date'}.</p>
+            ${loadError && html`<div class="feedback error small">Could not load the saved templates, so only the built-in ones are listed.</div>`}
+            <div class="template-apply-row">
+                <select value=${selectedName} onChange=${(e) => setSelectedName(e.currentTarget.value)} aria-label="Template">
+                    <option value="">Choose a template...</option>
+                    ${library.map(t => html`<option value=${t.name}>${t.name} (${t.steps.length})</option>`)}
+                </select>
+                ${template && html`
+                    <label>
+                        <span>${template.anchor}</span>
+                        <input type="date" class="editable-text" value=${anchorDate} onInput=${(e) => setAnchorDate(e.currentTarget.value)} />
+                    </label>
+                    <button onClick=${handleApply} disabled=${isApplying}>
+                        ${isApplying ? 'Adding...' : `＋ Add ${preview.length} sub-tasks`}
+                    </button>
+                `}
+            </div>
+            ${template && html`
+                <ol class="template-steps">
+                    ${preview.map((st, index) => html`
+                        <li key=${index}>
+                            <span class="name">${st.name}</span>
+                            <span class="meta">
+                                ${st.assignee || 'Unassigned'}
+                                ${' · '}
+                                ${st.dueDate ? formatDate(st.dueDate) : template.steps[index].offsetDays === null ? 'No date' : `Day ${template.steps[index].offsetDays}`}
+                            </span>
+                        </li>
+                    `)}
+                </ol>
+            `}
+            ${!isSaveOpen && html`
+                <button class="link-button" onClick=${openSave} disabled=${!subTasks.length}>Save this project as a template</button>
+            `}
+            ${isSaveOpen && html`
+                <div class="template-save-row">
+                    <input type="text" class="editable-text" value=${saveName} onInput=${(e) => setSaveName(e.currentTarget.value)} aria-label="Template name" />
+                    <select value=${saveAnchor} onChange=${(e) => setSaveAnchor(e.currentTarget.value)} aria-label="Date the template counts from">
+                        ${TEMPLATE_ANCHORS.map(anchor => html`<option value=${anchor}>Dated from the ${anchor.toLowerCase()}</option>`)}
+                    </select>
+                    <input type="date" class="editable-text" value=${saveAnchorDate} onInput=${(e) => setSaveAnchorDate(e.currentTarget.value)} aria-label=${saveAnchor} />
+                    <button onClick=${handleSave} disabled=${isSaving || !saveName.trim()}>${isSaving ? 'Saving...' : 'Save template'}</button>
+                    <button class="secondary-button" onClick=${() => setIsSaveOpen(false)}>Cancel</button>
+                </div>
+            `}
+        </section>
+    `;
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect, useMemo } from 'preact/hooks';
+import { html } from 'htm/preact';
+import {
+    collectWeeklyReport, buildReportPrompt, reportToMarkdown, reportToRows, reportTitle, reportBreakdowns,
+    sectionTitle, SECTIONS, REPORT_SCHEMA, type ReportNarrative,
+} from '../services/report';
+import { AiNotConfiguredError } from '../services/ai';
+import { downloadFile } from '../utils/download';
+import { todayIso, formatDate } from '../utils/dates';
+
+// Generates the weekly status report as soon as it opens, then offers it as a Markdown
+// download or a new tab in the workspace. The counts and tables are worked out from the
+// sheet and the audit log, so they show even while Gemini writes the summary.
+export const WeeklyReport = ({ tasks, subTasksByProject, roster, repository, ai, onClose }) => {
+    const [audit, setAudit] = useState(null);
+    const data = useMemo(
+        () => audit && collectWeeklyReport(tasks, subTasksByProject, roster, todayIso(), audit),
+        [tasks, subTasksByProject, roster, audit],
+    );
+    const [narrative, setNarrative] = useState<ReportNarrative | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState(null);
+    const [savedTab, setSavedTab] = useState(null);
+
+    const generate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        setSavedTab(null);
+        try {
+            setNarrative(await ai.generateJson(buildReportPrompt(data), REPORT_SCHEMA));
+        } catch (err) {
+            console.error('Error generating weekly report:', err);
+            setError(err instanceof AiNotConfiguredError ? err.message : 'Sorry, the report couldn\'t be written. Please try again.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    // Without the log, done work is counted by its due date alone.
+    useEffect(() => {
+        let cancelled = false;
+        repository.listAudit()
+            .catch(err => {
+                console.warn('Could not read the audit log for the report:', err);
+                return [];
+            })
+            .then(entries => {
+                if (!cancelled) setAudit(entries);
+            });
+        return () => { cancelled = true; };
+    }, [repository]);
+
+    useEffect(() => {
+        if (audit) generate();
+    }, [audit]);
+
+    const handleDownload = () => {
+        downloadFile(`trashtv-weekly-report-${data.today}.md`, reportToMarkdown(data, narrative), 'text/markdown');
+    };
+
+    const handleSaveTab = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            setSavedTab(await repository.saveReport(reportTitle(data), reportToRows(data, narrative)));
+        } catch (err) {
+            console.error('Failed to save weekly report:', err);
+            setError('Could not save the report to the spreadsheet. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!data) {
+        return html`<div class="weekly-report"><div class="feedback loading small">Loading this week's changes...</div></div>`;
+    }
+
+    return html`
+        <div class="weekly-report">
+            <div class="weekly-report-header">
+                <h2>Weekly report · ${formatDate(data.weekStart)} – ${formatDate(data.today)}</h2>
+                <button class="secondary-button" onClick=${onClose}>Close</button>
+            </div>
+            <div class="report-counts">
+                ${SECTIONS.map(section => html`
+                    <span class="report-count report-${section}"><strong>${data[section].length}</strong> ${sectionTitle(section)}</span>
+                `)}
+            </div>
+            ${reportBreakdowns(data).map(({ title, rows: [header, ...rows] }) => rows.length > 0 && html`
+                <h3>${title}</h3>
+                <table class="report-table">
+                    <thead><tr>${header.map(label => html`<th>${label}</th>`)}</tr></thead>
+                    <tbody>${rows.map(([name, ...counts]) => html`<tr><td>${name}</td>${counts.map(count => html`<td>${count}</td>`)}</tr>`)}</tbody>
+                </table>
+            `)}
+            ${isGenerating && html`<div class="feedback loading small">Gemini is writing the report...</div>`}
+            ${error && html`<div class="feedback error small">${error}</div>`}
+            ${narrative && !isGenerating && html`
+                <div class="report-body">
+                    <p class="report-headline">${narrative.headline}</p>
+                    <p>${narrative.summary}</p>
+                    ${narrative.highlights.length > 0 && html`
+                        <h3>Highlights</h3>
+                        <ul>${narrative.highlights.map(h => html`<li>${h}</li>`)}</ul>
+                    `}
+                    ${narrative.risks.length > 0 && html`
+                        <h3>Risks</h3>
+                        <ul>${narrative.risks.map(r => html`<li>${r}</li>`)}</ul>
+                    `}
+                </div>
+                <div class="list-actions">
+                    <button class="secondary-button" onClick=${generate}>Regenerate</button>
+                    <button class="secondary-button" onClick=${handleDownload}>Download Markdown</button>
+                    <button class="secondary-button" onClick=${handleSaveTab} disabled=${isSaving || !!savedTab}>
+                        ${isSaving ? 'Saving...' : savedTab ? `Saved to "${savedTab}"` : 'Save as sheet tab'}
+                    </button>
+                </div>
+            `}
+        </div>
+    `;
+};
@@ -0,0 +1,302 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect } from 'preact/hooks';
+import { html } from 'htm/preact';
+import { SubTaskConflictError } from '../services/repository';
+import { cascadeDueDates } from '../services/dependencies';
+import { isDone } from '../utils/status';
+import { isValidIsoDate, formatDate, todayIso, addDays, daysBetween, startOfWeek, startOfMonth, parseIsoDate, toIsoDate } from '../utils/dates';
+
+const DAY_WIDTH = 28; // px per day on the timeline
+const TIMELINE_DAYS = 42;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const validDate = (value) => (value && isValidIsoDate(value) ? value : null);
+
+const isOverdue = (dueDate, status) => Boolean(validDate(dueDate)) && dueDate < todayIso() && !isDone(status);
+
+// The days a job occupies: start to due, or just one of them when only one is set.
+const jobSpan = (task) => {
+    const start = validDate(task.startDate) || validDate(task.dueDate);
+    const end = validDate(task.dueDate) || validDate(task.startDate);
+    return start && end ? { start, end } : null;
+};
+
+const shiftMonth = (value, months) => {
+    const date = parseIsoDate(startOfMonth(value));
+    date.setMonth(date.getMonth() + months);
+    return toIsoDate(date);
+};
+
+/**
+ * The in-app production calendar: month and week grids plus a Gantt-style timeline of jobs
+ * and their sub-tasks. On the timeline, a job's bar edges and a sub-task's marker can be
+ * dragged to reschedule them.
+ */
+export const WerkCalendar = ({ tasks, subTasksByProject, repository, onUpdateTask, onSubTaskSaved, onTaskClick }) => {
+    const [view, setView] = useState('timeline');
+    const [anchor, setAnchor] = useState(todayIso());
+    const [expanded, setExpanded] = useState(new Set());
+    const [drag, setDrag] = useState(null);
+
+    const today = todayIso();
+
+    const rescheduleSubTask = async (task, subTask, dueDate) => {
+        const replaceSubTask = (saved) => onSubTaskSaved(task.name, saved);
+        replaceSubTask({ ...subTask, dueDate });
+        try {
+            // A queued edit stays as already shown.
+            const saved = await repository.updateSubTask(task.name, subTask, { dueDate });
+            if (saved) replaceSubTask(saved);
+        } catch (err) {
+            console.error('Failed to reschedule sub-task:', err);
+            replaceSubTask(subTask);
+            alert(err instanceof SubTaskConflictError ? err.message : 'Failed to save changes. Please try again.');
+        }
+    };
+
+    // As on the project page, sub-tasks waiting on this one can be moved back with it.
+    const handleSubTaskReschedule = async (task, subTask, dueDate) => {
+        const moves = cascadeDueDates(subTask, dueDate, subTasksByProject[task.name] || []);
+        const cascade = moves.length > 0 && confirm(
+            `${moves.map(m => `"${m.subTask.name}"`).join(', ')} ${moves.length === 1 ? 'waits' : 'wait'} on "${subTask.name}" and would be due before it. ` +
+            `Move ${moves.length === 1 ? 'it' : 'them'} back by ${daysBetween(subTask.dueDate, dueDate)} days too?`
+        );
+        await rescheduleSubTask(task, subTask, dueDate);
+        for (const move of cascade ? moves : []) {
+            await rescheduleSubTask(task, move.subTask, move.dueDate);
+        }
+    };
+
+    // While a bar edge or marker is being dragged, follow the pointer across the whole window.
+    useEffect(() => {
+        if (!drag) return;
+        const handleMove = (e) => {
+            const delta = Math.round((e.clientX - drag.originX) / DAY_WIDTH);
+            let preview = addDays(drag.originDate, delta);
+            if (drag.edge === 'start' && preview > drag.limit) preview = drag.limit;
+            if (drag.edge === 'end' && preview < drag.limit) preview = drag.limit;
+            setDrag(prev => prev && { ...prev, preview });
+        };
+        const handleUp = () => {
+            if (drag.preview !== drag.originDate) {
+                if (drag.edge === 'start') onUpdateTask(drag.task, { startDate: drag.preview });
+                if (drag.edge === 'end') onUpdateTask(drag.task, { dueDate: drag.preview });
+                if (drag.edge === 'milestone') handleSubTaskReschedule(drag.task, drag.subTask, drag.preview);
+            }
+            setDrag(null);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    }, [drag]);
+
+    const startDrag = (e, details) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDrag({ ...details, originX: e.clientX, preview: details.originDate });
+    };
+
+    const handleNavigate = (direction) => {
+        if (view === 'month') setAnchor(shiftMonth(anchor, direction));
+        else if (view === 'week') setAnchor(addDays(anchor, direction * 7));
+        else setAnchor(addDays(anchor, direction * 14));
+    };
+
+    const toggleExpanded = (name) => {
+        const next = new Set(expanded);
+        next.has(name) ? next.delete(name) : next.add(name);
+        setExpanded(next);
+    };
+
+    const itemsForDay = (day) => [
+        ...tasks
+            .filter(task => {
+                const span = jobSpan(task);
+                return span && span.start <= day && day <= span.end;
+            })
+            .map(task => ({
+                key: `job-${task.id}`,
+                label: task.name,
+                className: `calendar-item job priority-${task.priority.replace(/\s+/g, '-').toLowerCase()}`,
+                overdue: isOverdue(task.dueDate, task.status),
+                done: isDone(task.status),
+                onClick: () => onTaskClick(task),
+            })),
+        ...tasks.flatMap(task => (subTasksByProject[task.name] || [])
+            .filter(st => st.dueDate === day)
+            .map(st => ({
+                key: `sub-${st.id}`,
+                label: `${st.name} (${task.name})`,
+                className: 'calendar-item subtask',
+                overdue: isOverdue(st.dueDate, st.status),
+                done: isDone(st.status),
+                onClick: () => onTaskClick(task),
+            }))),
+    ];
+
+    const renderGrid = (days, monthStart = null) => html`
+        <div class="calendar-grid ${view}">
+            ${WEEKDAYS.map(name => html`<div class="calendar-weekday" key=${name}>${name}</div>`)}
+            ${days.map(day => html`
+                <div
+                    key=${day}
+                    class="calendar-day ${day === today ? 'today' : ''} ${monthStart && day.slice(0, 7) !== monthStart.slice(0, 7) ? 'outside-month' : ''}"
+                >
+                    <span class="calendar-day-number">${parseIsoDate(day).getDate()}</span>
+                    ${itemsForDay(day).map(item => html`
+                        <button
+                            key=${item.key}
+                            class="${item.className} ${item.overdue ? 'overdue' : ''} ${item.done ? 'done' : ''}"
+                            onClick=${item.onClick}
+                            title=${item.label}
+                        >${item.label}</button>
+                    `)}
+                </div>
+            `)}
+        </div>
+    `;
+
+    const renderMonth = () => {
+        const monthStart = startOfMonth(anchor);
+        const gridStart = startOfWeek(monthStart);
+        const nextMonth = shiftMonth(anchor, 1);
+        const weeks = Math.ceil(daysBetween(gridStart, nextMonth) / 7);
+        const days = Array.from({ length: weeks * 7 }, (_, i) => addDays(gridStart, i));
+        return renderGrid(days, monthStart);
+    };
+
+    const renderWeek = () => {
+        const weekStart = startOfWeek(anchor);
+        return renderGrid(Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)));
+    };
+
+    const renderTimeline = () => {
+        const rangeStart = startOfWeek(addDays(anchor, -7));
+        const days = Array.from({ length: TIMELINE_DAYS }, (_, i) => addDays(rangeStart, i));
+        const rangeEnd = days[days.length - 1];
+        const showToday = today >= rangeStart && today <= rangeEnd;
+        const offset = (day) => daysBetween(rangeStart, day) * DAY_WIDTH;
+        const previewFor = (edge, task, subTask = null) =>
+            drag && drag.edge === edge && drag.task.id === task.id && (!subTask || drag.subTask.id === subTask.id) ? drag.preview : null;
+
+        const renderJobBar = (task) => {
+            const span = jobSpan(task);
+            if (!span) return html`<span class="timeline-undated">No dates set</span>`;
+            const start = previewFor('start', task) || span.start;
+            const end = previewFor('end', task) || span.end;
+            const overdue = isOverdue(end, task.status);
+            return html`
+                <div
+                    class="timeline-bar priority-${task.priority.replace(/\s+/g, '-').toLowerCase()} ${overdue ? 'overdue' : ''} ${isDone(task.status) ? 'done' : ''}"
+                    style=${{ left: `${offset(start)}px`, width: `${(daysBetween(start, end) + 1) * DAY_WIDTH}px` }}
+                    title="${task.name}: ${formatDate(start)} – ${formatDate(end)}"
+                >
+                    <span
+                        class="timeline-handle start"
+                        onPointerDown=${(e) => startDrag(e, { edge: 'start', task, originDate: span.start, limit: span.end })}
+                        title="Drag to change the start date"
+                    ></span>
+                    <span class="timeline-bar-label">${task.name}</span>
+                    <span
+                        class="timeline-handle end"
+                        onPointerDown=${(e) => startDrag(e, { edge: 'end', task, originDate: span.end, limit: span.start })}
+                        title="Drag to change the due date"
+                    ></span>
+                </div>
+            `;
+        };
+
+        const renderMilestone = (task, st) => {
+            const dueDate = previewFor('milestone', task, st) || validDate(st.dueDate);
+            if (!dueDate) return html`<span class="timeline-undated">No due date</span>`;
+            return html`
+                <span
+                    class="timeline-milestone ${isOverdue(dueDate, st.status) ? 'overdue' : ''} ${isDone(st.status) ? 'done' : ''}"
+                    style=${{ left: `${offset(dueDate) + DAY_WIDTH / 2}px` }}
+                    onPointerDown=${(e) => startDrag(e, { edge: 'milestone', task, subTask: st, originDate: st.dueDate })}
+                    title="${st.name}: due ${formatDate(dueDate)}. Drag to reschedule."
+                ></span>
+            `;
+        };
+
+        return html`
+            <div class="timeline" style=${{ '--day-width': `${DAY_WIDTH}px` }}>
+                <div class="timeline-row timeline-header">
+                    <div class="timeline-label"></div>
+                    <div class="timeline-track" style=${{ width: `${TIMELINE_DAYS * DAY_WIDTH}px` }}>
+                        ${days.map(day => html`
+                            <span key=${day} class="timeline-day ${day === today ? 'today' : ''}" style=${{ left: `${offset(day)}px` }}>
+                                ${parseIsoDate(day).getDate()}
+                            </span>
+                        `)}
+                    </div>
+                </div>
+                ${tasks.map(task => {
+                    const subTasks = subTasksByProject[task.name] || [];
+                    const isExpanded = expanded.has(task.name);
+                    return html`
+                        <div class="timeline-row" key=${task.id}>
+                            <div class="timeline-label">
+                                <button
+                                    class="timeline-expand"
+                                    onClick=${() => toggleExpanded(task.name)}
+                                    disabled=${!subTasks.length}
+                                    aria-label="${isExpanded ? 'Hide' : 'Show'} sub-tasks for ${task.name}"
+                                >${subTasks.length ? (isExpanded ? '▾' : '▸') : ''}</button>
+                                <span class="timeline-name" onClick=${() => onTaskClick(task)} title=${task.name}>${task.name}</span>
+                            </div>
+                            <div class="timeline-track" style=${{ width: `${TIMELINE_DAYS * DAY_WIDTH}px` }}>
+                                ${showToday && html`<span class="timeline-today" style=${{ left: `${offset(today)}px` }}></span>`}
+                                ${renderJobBar(task)}
+                            </div>
+                        </div>
+                        ${isExpanded && subTasks.map(st => html`
+                            <div class="timeline-row subtask" key=${st.id}>
+                                <div class="timeline-label"><span class="timeline-name" title=${st.name}>${st.name}</span></div>
+                                <div class="timeline-track" style=${{ width: `${TIMELINE_DAYS * DAY_WIDTH}px` }}>
+                                    ${showToday && html`<span class="timeline-today" style=${{ left: `${offset(today)}px` }}></span>`}
+                                    ${renderMilestone(task, st)}
+                                </div>
+                            </div>
+                        `)}
+                    `;
+                })}
+            </div>
+        `;
+    };
+
+    const title = view === 'month'
+        ? parseIsoDate(anchor).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+        : view === 'week'
+            ? `Week of ${formatDate(startOfWeek(anchor))}`
+            : `From ${formatDate(startOfWeek(addDays(anchor, -7)))}`;
+
+    return html`
+        <div class="werk-calendar">
+            <div class="calendar-toolbar">
+                <div class="calendar-nav">
+                    <button onClick=${() => handleNavigate(-1)} aria-label="Previous">‹</button>
+                    <button onClick=${() => setAnchor(todayIso())}>Today</button>
+                    <button onClick=${() => handleNavigate(1)} aria-label="Next">›</button>
+                    <span class="calendar-title">${title}</span>
+                </div>
+                <div class="calendar-views" role="group" aria-label="Calendar view">
+                    ${['month', 'week', 'timeline'].map(name => html`
+                        <button key=${name} class="filter-button ${view === name ? 'active' : ''}" onClick=${() => setView(name)}>
+                            ${name[0].toUpperCase() + name.slice(1)}
+                        </button>
+                    `)}
+                </div>
+            </div>
+            ${view === 'month' && renderMonth()}
+            ${view === 'week' && renderWeek()}
+            ${view === 'timeline' && renderTimeline()}
+        </div>
+    `;
+};
@@ -3,10 +3,46 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { render } from 'preact';
-import { useState, useCallback, useEffect } from 'preact/hooks';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'preact/hooks';
 import { html } from 'htm/preact';
-import { GoogleGenAI, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import type { ComponentChild } from 'preact';
+import { SheetNotFoundError, SheetExistsError, TaskConflictError, SubTaskConflictError, GrantConflictError, MissingColumnsError, type StorageBackend } from './services/repository';
+import { saveColumnAlias } from './services/columns';
+import { createSheetsRepository, HUB_SHEET_NAME, TEAM_SHEET_NAME, GRANTS_SHEET_NAME } from './services/sheetsRepository';
+import { createLocalRepository } from './services/localRepository';
+import { createOfflineQueue } from './services/offlineQueue';
+import { createSyncedRepository } from './services/syncedRepository';
+import { createAuditedRepository, revertValues, describeChange } from './services/auditedRepository';
+import { USERINFO_SCOPE, LOCAL_USER, fetchUserEmail } from './services/identity';
+import { collectDeadlines, loadNotificationSettings, saveNotificationSettings } from './services/deadlines';
+import { KanbanBoard } from './components/KanbanBoard';
+import { WerkCalendar } from './components/WerkCalendar';
+import { CommandPreview } from './components/CommandPreview';
+import { WeeklyReport } from './components/WeeklyReport';
+import { ProjectHistory } from './components/ProjectHistory';
+import { MyDay } from './components/MyDay';
+import { GrantsTracker } from './components/GrantsTracker';
+import { JobFilterPanel } from './components/JobFilterPanel';
+import { RecurrenceSelect } from './components/RecurrenceSelect';
+import { TemplatePanel } from './components/TemplatePanel';
+import { DependsOnCell } from './components/DependsOnCell';
+import { COMMAND_SCHEMA, buildCommandPrompt, planCommand, type CommandAction } from './services/commands';
+import { createDefaultAiService, AiNotConfiguredError } from './services/ai';
+import { grantReminders } from './services/grants';
+import { filterJobs, sortJobs, filtersToParams, filtersFromParams } from './services/jobFilters';
+import { completeTask, completeSubTask, parseRecurrence, formatRecurrence } from './services/recurrence';
+import { openPrerequisites, latePrerequisites, cascadeDueDates, criticalPath } from './services/dependencies';
+import { tasksToIcs, subTasksToIcs, parseIcs, subTaskIdFromUid } from './services/ics';
+import { downloadFile } from './utils/download';
+import { useVirtualRows } from './utils/virtualRows';
+import { useRoute, parseRoute } from './utils/router';
+import { projectProgress } from './utils/progress';
+import { dueState, DUE_LABELS } from './utils/deadlines';
+import { useDeadlineNotifications } from './utils/notifications';
+import { resolveAssignee, canonicalAssignee, isUnknownAssignee } from './services/roster';
+import { isValidIsoDate, formatDate, todayIso, daysBetween, parseSheetDate } from './utils/dates';
+import { STATUSES, STATUS_SHORTCUTS, REOPEN_STATUS, normalizeStatus, canTransition, statusClass, isDone } from './utils/status';
 
 // Add a global declaration for the Google API client (gapi) and Google Identity Services (GIS)
 declare global {
@@ -17,12 +53,14 @@ declare global {
 }
 
 // --- Gemini AI Configuration ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const ai = createDefaultAiService();
 
 // --- Google Sheets Configuration ---
 const CLIENT_ID = '437469512207-hhpsi8cpvtsvddif5vjm65gci9g2d8t2.apps.googleusercontent.com'; // Provided by the user.
 const DISCOVERY_DOCS = ["https://sheets.googleapis.com/$discovery/rest?version=v4"];
-const SCOPES = "https://www.googleapis.com/auth/spreadsheets";
+const SCOPES = `https://www.googleapis.com/auth/spreadsheets ${USERINFO_SCOPE}`;
+// How many recent edits can be undone.
+const MAX_UNDO = 50;
 
 const TroubleshootingError = ({ error }) => {
     const [copyButtonText, setCopyButtonText] = useState('Copy');
@@ -56,8 +94,205 @@ const TroubleshootingError = ({ error }) => {
     `;
 };
 
+// Explains which columns a tab is missing and lets the user point each one at an existing header.
+const MissingColumnsHelp = ({ error, onMapped }) => {
+    const [choices, setChoices] = useState({});
+    const headers = error.headers.filter(h => h && h.trim());
 
-const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
+    const handleUseColumn = (field) => {
+        saveColumnAlias(error.kind, field, choices[field]);
+        onMapped();
+    };
+
+    return html`
+        <div class="missing-columns">
+            <p><strong>${error.message}</strong></p>
+            <p class="technical-details">
+                ${headers.length
+                    ? html`Headers found in row 1: ${headers.map((h, i) => html`${i > 0 && ', '}<code>${h}</code>`)}`
+                    : 'Row 1 of the tab is empty. Add a header row naming each column.'}
+            </p>
+            ${error.missing.map(spec => html`
+                <div class="column-mapping" key=${spec.field}>
+                    <label>Use for "${spec.label}":</label>
+                    <select value=${choices[spec.field] || ''} onChange=${e => setChoices({ ...choices, [spec.field]: e.currentTarget.value })}>
+                        <option value="">Choose a column…</option>
+                        ${headers.map(h => html`<option value=${h}>${h}</option>`)}
+                    </select>
+                    <button onClick=${() => handleUseColumn(spec.field)} disabled=${!choices[spec.field]}>Use this column</button>
+                </div>
+            `)}
+            <p class="technical-details">Or rename a column in the sheet to "${error.missing[0].label}" and reload.</p>
+        </div>
+    `;
+};
+
+// Sub-task completion for a job card. Nothing is shown until the project's tab has loaded,
+// or at all when the job has no tab.
+const JobProgress = ({ subTasks }) => {
+    if (!subTasks) return null;
+    if (!subTasks.length) return html`<div class="job-progress"><span class="progress-count">No sub-tasks yet</span></div>`;
+    const { total, done, overdue, next } = projectProgress(subTasks);
+    const percent = Math.round((done / total) * 100);
+
+    return html`
+        <div class="job-progress">
+            <div class="progress-bar" role="progressbar" aria-valuemin="0" aria-valuemax=${total} aria-valuenow=${done} aria-label="${done} of ${total} sub-tasks done">
+                <div class="progress-fill" style=${{ width: `${percent}%` }}></div>
+            </div>
+            <span class="progress-count">${done}/${total} done</span>
+            ${overdue > 0 && html`<span class="progress-overdue">${overdue} overdue</span>`}
+            ${next && html`<span class="progress-next" title=${next.name}>Next: ${next.name} · ${formatDate(next.dueDate)}</span>`}
+        </div>
+    `;
+};
+
+// Shows whether a row has changes waiting in the offline queue, with actions to retry or discard them.
+const SyncBadge = ({ entries, onRetry, onDiscard }) => {
+    if (!entries.length) return null;
+    const failed = entries.find(e => e.status === 'failed');
+    const stopClick = (e) => e.stopPropagation();
+
+    return html`
+        <span class="sync-badge ${failed ? 'sync-failed' : 'sync-pending'}" onClick=${stopClick} title=${failed?.error || 'Waiting to sync'}>
+            ${failed ? 'Failed to save' : 'Pending sync'}
+            ${entries.map(entry => html`
+                <span class="sync-actions" key=${entry.id}>
+                    <button onClick=${() => onRetry(entry.id)} title="Retry this change">↻</button>
+                    <button onClick=${() => onDiscard(entry.id)} title="Discard this change">✕</button>
+                </span>
+            `)}
+        </span>
+    `;
+};
+
+const dueClass = (dueDate, status, today) => {
+    const state = dueState(dueDate, status, today);
+    return state ? `due-${state}` : '';
+};
+
+// Flags work that is overdue, due today or due in the coming week.
+const DueBadge = ({ dueDate, status, today }) => {
+    const state = dueState(dueDate, status, today);
+    return state && html`<span class="due-badge due-${state}">${DUE_LABELS[state]}</span>`;
+};
+
+// Marks a repeating job with its rule, e.g. "↻ Weekly".
+const RepeatBadge = ({ recurrence }) => {
+    const rule = parseRecurrence(recurrence);
+    return rule && html`<span class="repeat-badge" title=${formatRecurrence(rule)}>↻ ${formatRecurrence({ ...rule, until: null })}</span>`;
+};
+
+// Undo and redo for recent edits to jobs and sub-tasks, named after what they'd change.
+const UndoControls = ({ undoStack, redoStack, onUndo, onRedo }) => {
+    const lastUndo = undoStack[undoStack.length - 1];
+    const lastRedo = redoStack[redoStack.length - 1];
+    return html`
+        <div class="undo-controls">
+            <button class="secondary-button" onClick=${onUndo} disabled=${!lastUndo} title=${lastUndo ? `Undo ${describeChange(lastUndo)} (Ctrl+Z)` : 'Nothing to undo'}>↶ Undo</button>
+            <button class="secondary-button" onClick=${onRedo} disabled=${!lastRedo} title=${lastRedo ? `Redo ${describeChange(lastRedo)} (Ctrl+Shift+Z)` : 'Nothing to redo'}>↷ Redo</button>
+        </div>
+    `;
+};
+
+// Tells the user why a status change wasn't made, with the statuses they can move to instead.
+// Returns false, for handlers to hand back when they refuse a change.
+const refuseTransition = (name, from, to) => {
+    const allowed = STATUSES.filter(s => s !== normalizeStatus(from) && canTransition(from, s));
+    alert(`"${name}" can't move from ${from} to ${to}. From ${from} it can move to ${allowed.join(', ')}.`);
+    return false;
+};
+
+// Statuses that can't be reached from the current one are shown but disabled. When a change
+// is refused (onChange returns false), the select goes back to the current status.
+const StatusSelect = ({ status, onChange, label }) => {
+    const current = normalizeStatus(status);
+    const stopPropagation = (e) => e.stopPropagation();
+
+    return html`
+        <select
+            class="status-indicator status-select ${statusClass(status)}"
+            value=${current || status}
+            onClick=${stopPropagation}
+            onKeyDown=${stopPropagation}
+            onChange=${(e) => {
+                const select = e.currentTarget;
+                if (onChange(select.value) === false) select.value = current || status;
+            }}
+            aria-label=${label}
+        >
+            ${!current && html`<option value=${status}>${status}</option>`}
+            ${STATUSES.map(s => html`<option value=${s} disabled=${!canTransition(status, s)}>${s}</option>`)}
+        </select>
+    `;
+};
+
+// Returns the status for a shortcut key press, ignoring keys typed into text fields.
+const statusFromShortcut = (e) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return null;
+    const target = e.target;
+    if (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || (target.tagName === 'INPUT' && target.type !== 'checkbox')) {
+        return null;
+    }
+    return STATUS_SHORTCUTS[e.key.toLowerCase()] || null;
+};
+
+// A date cell with a picker. Values already in the sheet that aren't YYYY-MM-DD are flagged
+// rather than silently dropped, and nothing is saved until the date is valid.
+const DateCell = ({ value, onSave }) => {
+    const [isInvalid, setIsInvalid] = useState(false);
+    const isLegacyFormat = Boolean(value) && !isValidIsoDate(value);
+
+    const handleChange = (e) => {
+        const newValue = e.currentTarget.value;
+        if (newValue && !isValidIsoDate(newValue)) {
+            setIsInvalid(true);
+            return;
+        }
+        setIsInvalid(false);
+        if (newValue !== value) onSave(newValue);
+    };
+
+    return html`
+        <div class="date-cell">
+            <input
+                type="date"
+                class="editable-text ${isInvalid || isLegacyFormat ? 'invalid' : ''}"
+                value=${isLegacyFormat ? '' : value}
+                onChange=${handleChange}
+                title=${isLegacyFormat ? `"${value}" is not a YYYY-MM-DD date` : ''}
+            />
+            ${isLegacyFormat && html`<span class="date-cell-legacy">${value}</span>`}
+            ${isInvalid && html`<span class="date-cell-error">Use YYYY-MM-DD</span>`}
+        </div>
+    `;
+};
+
+// Notes stay on one line until focused, then expand for editing.
+const NotesCell = ({ value, onSave }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    return html`
+        <textarea
+            class="editable-text notes-cell ${isExpanded ? 'expanded' : ''}"
+            rows=${isExpanded ? 4 : 1}
+            placeholder="Add notes..."
+            defaultValue=${value}
+            onFocus=${() => setIsExpanded(true)}
+            onBlur=${(e) => {
+                setIsExpanded(false);
+                if (e.currentTarget.value !== value) onSave(e.currentTarget.value);
+            }}
+        ></textarea>
+    `;
+};
+
+// Flags an assignee that doesn't match anyone on the team roster.
+const AssigneeWarning = ({ roster, assignee }) => isUnknownAssignee(roster, assignee) && html`
+    <span class="assignee-warning" title=${`"${assignee}" isn't on the team roster`}>⚠</span>
+`;
+
+const ProjectDetail = ({ task, onBack, onUpdateTask, roster, repository, queueEntries, taskQueueEntries, onRetryTaskWrite, onDiscardTaskWrite, onSubTasksChange, undoControls, revertVersion, auditVersion }) => {
     const [subTasks, setSubTasks] = useState([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
@@ -76,74 +311,120 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
     const [selectedSubTasks, setSelectedSubTasks] = useState(new Set());
 
 
+    const handleCreateTab = async () => {
+        try {
+            await repository.createProject(task.name);
+            await fetchSheetData();
+        } catch (err) {
+            console.error('Failed to create project tab:', err);
+            alert('Could not create the tab. Please check your connection and try again.');
+        }
+    };
+
     const fetchSheetData = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            const range = `'${task.name}'!A2:F100`;
-            const response = await window.gapi.client.sheets.spreadsheets.values.get({
-                spreadsheetId: spreadsheetId,
-                range: range,
-            });
-            const values = response.result.values || [];
-            const tasksWithIds = values.map((row, index) => ({
-                id: index + 2, // Row number in the sheet
-                status: row[2] || 'Todo',
-                name: row[0] || '',
-                assignee: row[1] || '',
-                dueDate: row[4] || '',
-            })).filter(t => t.name); // Filter out empty rows
-            setSubTasks(tasksWithIds);
+            setSubTasks(await repository.listSubTasks(task.name));
         } catch (err) {
             console.error('Error fetching sheet data:', err);
-            if (err.result?.error?.code === 400 || err.result?.error?.message.includes('Unable to parse range')) {
-                 setError(`Could not find a sheet named "${task.name}". Make sure a tab in your Google Sheet exactly matches the project name.`);
+            if (err instanceof SheetNotFoundError) {
+                 setError(html`
+                    <p>Could not find a sheet named "${task.name}". Make sure a tab in your Google Sheet exactly matches the project name, or create one now.</p>
+                    <button class="secondary-button create-tab-button" onClick=${handleCreateTab}>Create the "${task.name}" tab</button>
+                 `);
+            } else if (err instanceof MissingColumnsError) {
+                 setError(html`<${MissingColumnsHelp} error=${err} onMapped=${() => fetchSheetData()} />`);
             } else {
                  setError('Could not load project details. Please check your connection and try again.');
             }
         } finally {
             setIsLoading(false);
         }
-    }, [task.name, spreadsheetId]);
+    }, [task.name, repository]);
 
+    // Undo and redo write to the tab from outside, so reload when they do.
     useEffect(() => {
         fetchSheetData();
-    }, [fetchSheetData]);
+    }, [fetchSheetData, revertVersion]);
+
+    // Keep the job card's progress in step with edits made here.
+    useEffect(() => {
+        if (!isLoading && !error) onSubTasksChange(task.name, subTasks);
+    }, [subTasks, isLoading, error, task.name, onSubTasksChange]);
 
-    const handleUpdateSheet = useCallback(async (rowId, column, value) => {
+    useEffect(() => {
+        const handleOnline = async () => {
+            try {
+                await repository.replay();
+            } catch (err) {
+                console.error('Failed to replay queued edits:', err);
+            }
+            await fetchSheetData();
+        };
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [repository, fetchSheetData]);
+
+    const handleRetryWrite = useCallback(async (entryId) => {
+        await repository.retry(entryId);
+        await fetchSheetData();
+    }, [repository, fetchSheetData]);
+
+    const handleDiscardWrite = useCallback(async (entryId) => {
+        await repository.discard(entryId);
+        await fetchSheetData();
+    }, [repository, fetchSheetData]);
+
+    const projectEntries = queueEntries.filter(e =>
+        (e.write.kind === 'updateSubTask' || e.write.kind === 'addSubTasks') && e.write.projectName === task.name
+    );
+    const entriesForSubTask = (subTask) =>
+        projectEntries.filter(e => e.write.kind === 'updateSubTask' && e.write.subTask.id === subTask.id);
+    const queuedNewSubTasks = projectEntries.filter(e => e.write.kind === 'addSubTasks');
+    const rows = useVirtualRows(subTasks.length);
+
+    const handleUpdateSheet = useCallback(async (subTask, edits) => {
+        const { changes, next } = completeSubTask(subTask, edits);
         try {
-            const range = `'${task.name}'!${column}${rowId}`;
-            await window.gapi.client.sheets.spreadsheets.values.update({
-                spreadsheetId: spreadsheetId,
-                range: range,
-                valueInputOption: 'USER_ENTERED',
-                resource: {
-                    values: [[value]],
-                },
-            });
+            // A queued edit is already shown; it's reloaded once it reaches the sheet.
+            const saved = await repository.updateSubTask(task.name, subTask, changes);
+            if (saved) setSubTasks(prevSubTasks => prevSubTasks.map(st => st.id === saved.id ? saved : st));
+            if (next) {
+                await repository.addSubTasks(task.name, [next]);
+                await fetchSheetData();
+            }
         } catch (err) {
             console.error('Failed to update sheet:', err);
-            alert('Failed to save changes. Please try again.');
+            if (err instanceof SubTaskConflictError) {
+                alert(`${err.message} Your change was not saved; reloading the latest version.`);
+                await fetchSheetData();
+            } else {
+                alert('Failed to save changes. Please try again.');
+            }
         }
-    }, [task.name, spreadsheetId]);
+    }, [task.name, repository, fetchSheetData]);
 
     const handleAddNewSubTask = useCallback(async () => {
         if (!newSubTaskName.trim()) {
             alert('Please enter a task name.');
             return;
         }
+        if (newSubTaskDueDate && !isValidIsoDate(newSubTaskDueDate)) {
+            alert('Please enter the due date as YYYY-MM-DD.');
+            return;
+        }
         setIsAdding(true);
         try {
-            const newRow = [[newSubTaskName, newSubTaskAssignee, 'Todo', '', newSubTaskDueDate]];
-            await window.gapi.client.sheets.spreadsheets.values.append({
-                spreadsheetId: spreadsheetId,
-                range: `'${task.name}'!A:E`,
-                valueInputOption: 'USER_ENTERED',
-                insertDataOption: 'INSERT_ROWS',
-                resource: {
-                    values: newRow,
-                },
-            });
+            await repository.addSubTasks(task.name, [{
+                name: newSubTaskName,
+                assignee: canonicalAssignee(roster, newSubTaskAssignee),
+                status: 'Todo',
+                notes: '',
+                dueDate: newSubTaskDueDate,
+                recurrence: '',
+                dependsOn: [],
+            }]);
             // Clear inputs and refresh data
             setNewSubTaskName('');
             setNewSubTaskAssignee('');
@@ -155,7 +436,7 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
         } finally {
             setIsAdding(false);
         }
-    }, [task.name, newSubTaskName, newSubTaskAssignee, newSubTaskDueDate, fetchSheetData, spreadsheetId]);
+    }, [task.name, newSubTaskName, newSubTaskAssignee, newSubTaskDueDate, fetchSheetData, repository, roster]);
 
     const handleGenerateSubTasks = useCallback(async () => {
         if (!aiGoalInput.trim() || isGenerating) return;
@@ -171,7 +452,7 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                 type: Type.OBJECT,
                 properties: {
                     name: { type: Type.STRING, description: 'The specific, actionable sub-task name.' },
-                    assignee: { type: Type.STRING, description: 'Suggest a relevant role or a placeholder name for the assignee.' },
+                    assignee: { type: Type.STRING, description: 'The name of the team member best suited to the sub-task.' },
                     dueDate: { type: Type.STRING, description: `A suggested due date in YYYY-MM-DD format. Today is ${new Date().toISOString().split('T')[0]}.` },
                 },
                 required: ['name'],
@@ -179,20 +460,10 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
         };
 
         try {
-            const prompt = `You are a project management assistant for a production company called TrashTV. The current project is "${task.name}". Your task is to break down the following high-level goal into a list of smaller, actionable sub-tasks. For each sub-task, provide a name, a suggested assignee (e.g., "Editor", "Producer", "Sammy", "Jess"), and a suggested due date in YYYY-MM-DD format. Goal: "${aiGoalInput}"`;
+            const prompt = `You are a project management assistant for a production company called TrashTV. The current project is "${task.name}". Your task is to break down the following high-level goal into a list of smaller, actionable sub-tasks. For each sub-task, provide a name, a suggested assignee, and a suggested due date in YYYY-MM-DD format. ${roster.length ? `Assign each sub-task to one of these team members, using their name exactly as written: ${roster.map(m => m.role ? `${m.name} (${m.role})` : m.name).join(', ')}.` : 'Suggest a relevant role or a placeholder name for the assignee (e.g., "Editor", "Producer").'} Goal: "${aiGoalInput}"`;
             
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: prompt,
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: schema,
-                },
-            });
+            const generatedTasks = await ai.generateJson<{ name: string; assignee?: string; dueDate?: string }[]>(prompt, schema);
 
-            const jsonString = response.text.trim();
-            const generatedTasks = JSON.parse(jsonString);
-            
             setSuggestedSubTasks(generatedTasks.map((t, index) => ({ ...t, id: `gen-${index}` })));
             const newSelected = new Set();
             generatedTasks.forEach((_, index) => newSelected.add(`gen-${index}`));
@@ -200,11 +471,11 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
 
         } catch (err) {
             console.error('Error generating sub-tasks:', err);
-            setGenerationError('Sorry, I couldn\'t generate sub-tasks for that. Please try rephrasing your goal.');
+            setGenerationError(err instanceof AiNotConfiguredError ? err.message : 'Sorry, I couldn\'t generate sub-tasks for that. Please try rephrasing your goal.');
         } finally {
             setIsGenerating(false);
         }
-    }, [aiGoalInput, isGenerating, task.name]);
+    }, [aiGoalInput, isGenerating, task.name, roster]);
 
     const handleToggleSuggestedTask = (taskId) => {
         const newSelection = new Set(selectedSubTasks);
@@ -222,23 +493,15 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
 
         setIsAdding(true);
         try {
-            const newRows = tasksToAdd.map(t => [
-                t.name || '',
-                t.assignee || '',
-                'Todo',
-                '', // Notes
-                t.dueDate || ''
-            ]);
-            
-            await window.gapi.client.sheets.spreadsheets.values.append({
-                spreadsheetId: spreadsheetId,
-                range: `'${task.name}'!A:E`,
-                valueInputOption: 'USER_ENTERED',
-                insertDataOption: 'INSERT_ROWS',
-                resource: {
-                    values: newRows,
-                },
-            });
+            await repository.addSubTasks(task.name, tasksToAdd.map(t => ({
+                name: t.name || '',
+                assignee: canonicalAssignee(roster, t.assignee),
+                status: 'Todo',
+                notes: '',
+                dueDate: t.dueDate || '',
+                recurrence: '',
+                dependsOn: [],
+            })));
 
             setAiGoalInput('');
             setSuggestedSubTasks([]);
@@ -251,38 +514,237 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
         } finally {
             setIsAdding(false);
         }
-    }, [task.name, suggestedSubTasks, selectedSubTasks, fetchSheetData, spreadsheetId]);
+    }, [task.name, suggestedSubTasks, selectedSubTasks, fetchSheetData, repository, roster]);
 
 
-    const handleStatusChange = (subTask, isChecked) => {
-        const newStatus = isChecked ? 'Done' : 'In Progress';
-        const updatedSubTasks = subTasks.map(st => 
-            st.id === subTask.id ? { ...st, status: newStatus } : st
-        );
-        setSubTasks(updatedSubTasks);
-        handleUpdateSheet(subTask.id, 'C', newStatus);
+    // Remembers what a sub-task was before it was ticked, so unticking puts it back there.
+    const statusBeforeDone = useRef(new Map());
+
+    // Returns false when the workflow doesn't allow the change, so the control can be put back.
+    const handleStatusChange = (subTask, newStatus) => {
+        if (newStatus === subTask.status) return true;
+        if (!canTransition(subTask.status, newStatus)) return refuseTransition(subTask.name, subTask.status, newStatus);
+        if (newStatus === 'Done') {
+            statusBeforeDone.current.set(subTask.id, normalizeStatus(subTask.status));
+        }
+        handleFieldChange(subTask, 'status', newStatus);
+        return true;
+    };
+
+    const handleDoneToggle = (subTask, checkbox) => {
+        const previous = statusBeforeDone.current.get(subTask.id);
+        const status = checkbox.checked ? 'Done' : previous && previous !== 'Done' ? previous : REOPEN_STATUS;
+        if (!handleStatusChange(subTask, status)) checkbox.checked = !checkbox.checked;
+    };
+
+    const handleRowKeyDown = (e, subTask) => {
+        const status = statusFromShortcut(e);
+        if (status) {
+            e.preventDefault();
+            handleStatusChange(subTask, status);
+        }
     };
 
-    const handleNameChange = (subTask, newName) => {
+    const handleFieldChange = (subTask, field, value) => {
          const updatedSubTasks = subTasks.map(st => 
-            st.id === subTask.id ? { ...st, name: newName } : st
+            st.id === subTask.id ? { ...st, [field]: value } : st
         );
         setSubTasks(updatedSubTasks);
-        handleUpdateSheet(subTask.id, 'A', newName);
+        handleUpdateSheet(subTask, { [field]: value });
     }
 
+    // A later due date can leave sub-tasks that wait on this one due before it; offer to move
+    // them back by the same amount.
+    const handleDueDateChange = async (subTask, dueDate) => {
+        const moves = cascadeDueDates(subTask, dueDate, subTasks);
+        const cascade = moves.length > 0 && confirm(
+            `${moves.length === 1 ? '1 sub-task waits' : `${moves.length} sub-tasks wait`} on "${subTask.name}" and would be due before it: ` +
+            `${moves.map(m => m.subTask.name).join(', ')}. Move ${moves.length === 1 ? 'it' : 'them'} back by ${daysBetween(subTask.dueDate, dueDate)} days too?`
+        );
+        const edits = [{ subTask, dueDate }, ...(cascade ? moves : [])];
+        setSubTasks(prev => prev.map(st => {
+            const edit = edits.find(e => e.subTask.id === st.id);
+            return edit ? { ...st, dueDate: edit.dueDate } : st;
+        }));
+        for (const edit of edits) {
+            await handleUpdateSheet(edit.subTask, { dueDate: edit.dueDate });
+        }
+    };
+
+    const critical = criticalPath(subTasks);
+    const criticalIds = new Set(critical.map(st => st.id));
+    const criticalEnd = parseSheetDate(critical[critical.length - 1]?.dueDate);
+    // The last sub-task due, when it sits outside every chain and so sets the finish date alone.
+    const lastDue = subTasks
+        .map(st => ({ subTask: st, dueDate: parseSheetDate(st.dueDate) }))
+        .filter(st => st.dueDate)
+        .reduce((a, b) => (!a || b.dueDate > a.dueDate ? b : a), null);
+    const finishesAfterChain = lastDue && !criticalIds.has(lastDue.subTask.id) && (!criticalEnd || lastDue.dueDate > criticalEnd);
+
+    const knownAssignees = roster.length
+        ? roster.map(member => member.name)
+        : [...new Set(subTasks.map(st => st.assignee).filter(Boolean))].sort();
+
+    const handleExportIcs = () => {
+        downloadFile(`${task.name}.ics`, subTasksToIcs(task.name, subTasks), 'text/calendar');
+    };
+
+    // Events whose UID matches an existing sub-task update it; everything else is added.
+    const handleImportIcs = async (e) => {
+        const file = e.currentTarget.files?.[0];
+        e.currentTarget.value = '';
+        if (!file) return;
+
+        const events = parseIcs(await file.text());
+        if (!events.length) {
+            alert('No events with a date were found in that file.');
+            return;
+        }
+        const existing = new Map(subTasks.map(st => [st.id, st]));
+        const seen = new Set();
+        const updates = [];
+        const additions = [];
+        events.forEach(event => {
+            const id = subTaskIdFromUid(event.uid, event.recurrenceId);
+            // A file may list the same event more than once; the first copy wins.
+            if (seen.has(id)) return;
+            seen.add(id);
+            const current = existing.get(id);
+            if (current) {
+                const changes = {};
+                if (event.summary !== current.name) changes['name'] = event.summary;
+                if (event.start !== current.dueDate) changes['dueDate'] = event.start;
+                if (Object.keys(changes).length) updates.push({ subTask: current, changes });
+            } else {
+                additions.push({ id, name: event.summary, assignee: '', status: 'Todo', notes: event.description, dueDate: event.start, recurrence: '', dependsOn: [] });
+            }
+        });
+        if (!updates.length && !additions.length) {
+            alert('Everything in that file is already up to date.');
+            return;
+        }
+        if (!confirm(`Import into "${task.name}": add ${additions.length} new and update ${updates.length} existing sub-tasks?`)) {
+            return;
+        }
+
+        setIsAdding(true);
+        try {
+            if (additions.length) {
+                await repository.addSubTasks(task.name, additions);
+            }
+            for (const { subTask, changes } of updates) {
+                await repository.updateSubTask(task.name, subTask, changes);
+            }
+        } catch (err) {
+            console.error('Failed to import calendar:', err);
+            alert(err instanceof SubTaskConflictError ? `${err.message} The rest of the import was skipped.` : 'Could not import the calendar. Please try again.');
+        } finally {
+            setIsAdding(false);
+            await fetchSheetData();
+        }
+    };
+
     return html`
       <div class="project-detail-container">
-        <button onClick=${onBack} class="back-button">← Back to Hub</button>
+        <div class="detail-toolbar">
+          <button onClick=${onBack} class="back-button">← Back to Hub</button>
+          ${undoControls}
+        </div>
         <header>
           <h1>${task.name}</h1>
+          <${SyncBadge} entries=${taskQueueEntries} onRetry=${onRetryTaskWrite} onDiscard=${onDiscardTaskWrite} />
           <p>Editing live from Google Sheets</p>
         </header>
 
+        <div class="job-details">
+            <label class="job-name">
+                <span>Name</span>
+                <input
+                    key=${task.name}
+                    type="text"
+                    class="editable-text"
+                    defaultValue=${task.name}
+                    onBlur=${(e) => {
+                        const name = e.currentTarget.value.trim();
+                        e.currentTarget.value = name || task.name;
+                        if (name && name !== task.name) onUpdateTask(task, { name });
+                    }}
+                />
+            </label>
+            <label>
+                <span>Status</span>
+                <${StatusSelect} status=${task.status} onChange=${(status) => onUpdateTask(task, { status })} label="Job status" />
+            </label>
+            <label>
+                <span>Priority</span>
+                <select value=${task.priority} onChange=${(e) => onUpdateTask(task, { priority: e.currentTarget.value })}>
+                    <option value="High Priority">High Priority</option>
+                    <option value="Mid-level Priority">Mid-level Priority</option>
+                    <option value="Low Priority">Low Priority</option>
+                </select>
+            </label>
+            <label>
+                <span>Assignee</span>
+                <input
+                    type="text"
+                    class="editable-text"
+                    list="assignee-options"
+                    defaultValue=${task.assignee}
+                    onBlur=${(e) => {
+                        const assignee = canonicalAssignee(roster, e.currentTarget.value);
+                        e.currentTarget.value = assignee;
+                        if (assignee !== task.assignee) onUpdateTask(task, { assignee });
+                    }}
+                />
+                <${AssigneeWarning} roster=${roster} assignee=${task.assignee} />
+            </label>
+            <label>
+                <span>Start Date</span>
+                <input
+                    type="date"
+                    class="editable-text"
+                    value=${task.startDate || ''}
+                    onChange=${(e) => onUpdateTask(task, { startDate: e.currentTarget.value || null })}
+                />
+            </label>
+            <label>
+                <span>Due Date</span>
+                <input
+                    type="date"
+                    class="editable-text"
+                    value=${task.dueDate || ''}
+                    onChange=${(e) => onUpdateTask(task, { dueDate: e.currentTarget.value || null })}
+                />
+            </label>
+            <label class="job-recurrence">
+                <span>Repeat</span>
+                <${RecurrenceSelect} value=${task.recurrence || ''} dueDate=${task.dueDate} onChange=${(recurrence) => onUpdateTask(task, { recurrence: recurrence || null })} label="Repeat this job" />
+            </label>
+            <label class="job-notes">
+                <span>Notes</span>
+                <input
+                    type="text"
+                    class="editable-text"
+                    placeholder="Add notes..."
+                    defaultValue=${task.notes || ''}
+                    onBlur=${(e) => e.currentTarget.value !== (task.notes || '') && onUpdateTask(task, { notes: e.currentTarget.value || null })}
+                />
+            </label>
+        </div>
+
+        <div class="list-actions">
+            <button class="secondary-button" onClick=${handleExportIcs} disabled=${isLoading || !!error}>Export sub-tasks (.ics)</button>
+            <label class="secondary-button ${isLoading || error || isAdding ? 'disabled' : ''}">
+                Import .ics
+                <input type="file" accept=".ics,text/calendar" onChange=${handleImportIcs} disabled=${isLoading || !!error || isAdding} hidden />
+            </label>
+        </div>
+
         ${isLoading && html`<div class="feedback loading">Loading project details...</div>`}
         ${error && html`<div class="feedback error">${error}</div>`}
         
         ${!isLoading && !error && html`
+            <${TemplatePanel} task=${task} subTasks=${subTasks} roster=${roster} repository=${repository} onApplied=${fetchSheetData} />
             <div class="ai-assistant-container">
                 <h2>✨ AI Assistant</h2>
                 <p>Describe a larger goal, and Gemini will break it down into sub-tasks for you.</p>
@@ -316,7 +778,8 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                                         <div class="suggested-task-details">
                                             <span class="name">${st.name}</span>
                                             <span class="meta">
-                                                ${st.assignee && `Assignee: ${st.assignee}`}
+                                                ${st.assignee && `Assignee: ${canonicalAssignee(roster, st.assignee)}`}
+                                                ${st.assignee && html`<${AssigneeWarning} roster=${roster} assignee=${st.assignee} />`}
                                                 ${st.assignee && st.dueDate && ' | '}
                                                 ${st.dueDate && `Due: ${st.dueDate}`}
                                             </span>
@@ -331,7 +794,18 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                     </div>
                 `}
             </div>
-            <div class="subtask-table-container">
+            ${critical.length > 0 && html`
+                <p class="critical-path-summary">
+                    <strong>Critical path</strong>${criticalEnd ? ` (finishes ${formatDate(criticalEnd)})` : ''}:
+                    ${' '}${critical.map(st => st.name).join(' → ')}
+                    ${finishesAfterChain && html`<br />"${lastDue.subTask.name}" is due later, on ${formatDate(lastDue.dueDate)}, and sets the finish date on its own as it waits on nothing.`}
+                </p>
+            `}
+            <div
+                class="subtask-table-container ${rows.isVirtual ? 'virtualized' : ''}"
+                ref=${rows.containerRef}
+                onScroll=${rows.onScroll}
+            >
                 <table class="subtask-table">
                     <thead>
                         <tr>
@@ -339,30 +813,83 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                             <th class="col-task">Task</th>
                             <th class="col-assignee">Assignee</th>
                             <th class="col-due-date">Due Date</th>
+                            <th class="col-notes">Notes</th>
+                            <th class="col-repeat">Repeat</th>
+                            <th class="col-depends-on">Depends On</th>
                         </tr>
                     </thead>
                     <tbody>
-                        ${subTasks.map(st => html`
-                            <tr key=${st.id} class=${st.status === 'Done' ? 'task-done' : ''}>
-                                <td>
+                        ${rows.padTop > 0 && html`<tr class="virtual-spacer" style=${{ height: `${rows.padTop}px` }}><td colspan="7"></td></tr>`}
+                        ${subTasks.slice(rows.start, rows.end).map(st => {
+                            const blockers = isDone(st.status) ? [] : openPrerequisites(st, subTasks);
+                            const late = latePrerequisites(st, subTasks);
+                            return html`
+                            <tr key=${st.id} data-row class="${isDone(st.status) ? 'task-done' : ''} ${dueClass(st.dueDate, st.status, todayIso())} ${blockers.length ? 'subtask-blocked' : ''} ${criticalIds.has(st.id) ? 'critical-path' : ''}" onKeyDown=${(e) => handleRowKeyDown(e, st)}>
+                                <td class="status-cell">
                                     <input 
                                         type="checkbox" 
-                                        checked=${st.status === 'Done'}
-                                        onChange=${(e) => handleStatusChange(st, e.currentTarget.checked)}
+                                        checked=${isDone(st.status)}
+                                        onChange=${(e) => handleDoneToggle(st, e.currentTarget)}
+                                        title="Status shortcuts: T Todo, P In Progress, B Blocked, R In Review, D Done"
                                     />
+                                    <${StatusSelect} status=${st.status} onChange=${(status) => handleStatusChange(st, status)} label="Status for ${st.name}" />
+                                    ${blockers.length > 0 && html`<span class="blocked-badge" title=${`Waiting on ${blockers.map(b => `"${b.name}"`).join(', ')}`}>Blocked</span>`}
                                 </td>
                                 <td>
                                     <input 
                                         type="text" 
                                         class="editable-text"
                                         defaultValue=${st.name} 
-                                        onBlur=${(e) => e.currentTarget.value !== st.name && handleNameChange(st, e.currentTarget.value)}
+                                        onBlur=${(e) => e.currentTarget.value !== st.name && handleFieldChange(st, 'name', e.currentTarget.value)}
+                                    />
+                                    <${SyncBadge} entries=${entriesForSubTask(st)} onRetry=${handleRetryWrite} onDiscard=${handleDiscardWrite} />
+                                </td>
+                                <td>
+                                    <input
+                                        type="text"
+                                        class="editable-text"
+                                        list="assignee-options"
+                                        placeholder="Unassigned"
+                                        defaultValue=${st.assignee}
+                                        onBlur=${(e) => {
+                                            const assignee = canonicalAssignee(roster, e.currentTarget.value);
+                                            e.currentTarget.value = assignee;
+                                            if (assignee !== st.assignee) handleFieldChange(st, 'assignee', assignee);
+                                        }}
                                     />
+                                    <${AssigneeWarning} roster=${roster} assignee=${st.assignee} />
+                                </td>
+                                <td>
+                                    <${DateCell} value=${st.dueDate} onSave=${(value) => handleDueDateChange(st, value)} />
+                                    ${late.length > 0 && html`<span class="date-cell-error">Due before ${late.map(p => `"${p.name}"`).join(', ')}</span>`}
+                                </td>
+                                <td>
+                                    <${NotesCell} value=${st.notes} onSave=${(value) => handleFieldChange(st, 'notes', value)} />
+                                </td>
+                                <td>
+                                    <${RecurrenceSelect} value=${st.recurrence} dueDate=${st.dueDate} onChange=${(value) => handleFieldChange(st, 'recurrence', value)} label="Repeat ${st.name}" />
+                                </td>
+                                <td>
+                                    <${DependsOnCell} subTask=${st} subTasks=${subTasks} onChange=${(ids) => handleFieldChange(st, 'dependsOn', ids)} />
+                                </td>
+                            </tr>
+                        `;
+                        })}
+                        ${rows.padBottom > 0 && html`<tr class="virtual-spacer" style=${{ height: `${rows.padBottom}px` }}><td colspan="7"></td></tr>`}
+                        ${queuedNewSubTasks.map(entry => entry.write.subTasks.map((st, index) => html`
+                            <tr key=${`queued-${entry.id}-${index}`} class="row-queued">
+                                <td></td>
+                                <td>
+                                    ${st.name}
+                                    ${index === 0 && html`<${SyncBadge} entries=${[entry]} onRetry=${handleRetryWrite} onDiscard=${handleDiscardWrite} />`}
                                 </td>
                                 <td>${st.assignee}</td>
                                 <td>${st.dueDate}</td>
+                                <td>${st.notes}</td>
+                                <td>${st.recurrence}</td>
+                                <td></td>
                             </tr>
-                        `)}
+                        `))}
                     </tbody>
                     <tfoot>
                         <tr class="add-subtask-row">
@@ -381,22 +908,26 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                                     type="text" 
                                     class="editable-text"
                                     placeholder="Assignee"
+                                    list="assignee-options"
                                     value=${newSubTaskAssignee}
                                     onInput=${e => setNewSubTaskAssignee(e.currentTarget.value)}
                                 />
                             </td>
                              <td>
                                 <input 
-                                    type="text" 
+                                    type="date" 
                                     class="editable-text"
                                     placeholder="Due Date"
                                     value=${newSubTaskDueDate}
                                     onInput=${e => setNewSubTaskDueDate(e.currentTarget.value)}
                                 />
                             </td>
+                            <td></td>
+                            <td></td>
+                            <td></td>
                         </tr>
                         <tr>
-                            <td colspan="4">
+                            <td colspan="7">
                                 <button class="add-subtask-button" onClick=${handleAddNewSubTask} disabled=${isAdding}>
                                     ${isAdding ? 'Adding...' : '＋ Add Sub-task'}
                                 </button>
@@ -404,8 +935,13 @@ const ProjectDetail = ({ task, onBack, spreadsheetId }) => {
                         </tr>
                     </tfoot>
                 </table>
+                <datalist id="assignee-options">
+                    ${knownAssignees.map(name => html`<option value=${name} />`)}
+                </datalist>
             </div>
         `}
+
+        <${ProjectHistory} projectName=${task.name} repository=${repository} refreshKey=${auditVersion} />
       </div>
     `;
 };
@@ -447,38 +983,76 @@ const Setup = ({ onSave }) => {
 
 
 const App = () => {
-  const [tasks, setTasks] = useState([
-    { name: 'Chai x Pasty GRWM', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: '2025-10-20', dueDate: '2025-10-24', notes: 'Need to add in viewing party footage, needs SH review & sign off' },
-    { name: 'Taylor RPDR Audition Tape', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: '2025-10-20', dueDate: '2025-10-27', notes: 'TT to do' },
-    { name: 'TrashTV Logo Design', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: null, dueDate: '2025-10-24', notes: 'SH - TT review' },
-    { name: 'Follow up with National Lottery Grant', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: null, dueDate: null, notes: 'TT to do' },
-    { name: 'Follow up with ITV Grant', priority: 'High Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: 'TT to do - needs SH support' },
-    { name: 'Access to Work Headphones for Jess', priority: 'High Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: 'TT to do - needs SH support' },
-    { name: 'Pasty Oversize Photoshoot', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'Todo', startDate: '2025-10-24', dueDate: '2025-10-24', notes: 'SH waiting to hear back from Mikis' },
-    { name: 'The Gold Rush Pitch Sizzle Reel', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: '2025-11-28', notes: 'Ongoing' },
-    { name: 'Pasty Dragumentary', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-11-27', notes: null },
-    { name: 'Sweet Tea x Jan podcast content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-11-27', notes: null },
-    { name: 'DragCon 2025 Interviews', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: '2026-01-10', notes: null },
-    { name: 'Sweet Tea x Michael Marouli YT content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: null, notes: null },
-    { name: 'Sweet Tea x Bobby Summers YT content', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: null, notes: null },
-    { name: 'Sweet Tea x Lawrence Chaney YT content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: null, notes: null },
-    { name: 'Follow up on FSB Grant', priority: 'Low Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null },
-    { name: 'Follow up with BFi Grant', priority: 'Low Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null },
-    { name: 'Chai x Pasty \'Hot Ones\'', priority: 'Mid-level Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-10-27', notes: null },
-    { name: 'Anita Piss Trashy Takeover video', priority: 'Mid-level Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: null, notes: null },
-    { name: 'Follow up with Tottenham Grant', priority: 'Mid-level Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null }
-  ]);
+  const [tasks, setTasks] = useState([]);
+  const [isLoadingTasks, setIsLoadingTasks] = useState(false);
+  const [subTasksByProject, setSubTasksByProject] = useState({});
   const [newTaskInput, setNewTaskInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [commandPlan, setCommandPlan] = useState(null);
+  const [isApplyingCommand, setIsApplyingCommand] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
   const [error, setError] = useState<ComponentChild>(null);
-  const [activeTab, setActiveTab] = useState('jobs');
-  const [selectedTask, setSelectedTask] = useState(null);
-  const [activeFilter, setActiveFilter] = useState('all');
+  const [hasLoadedTasks, setHasLoadedTasks] = useState(false);
+  const { route, navigate, goBack } = useRoute();
+  const [filters, setFilters] = useState(() => filtersFromParams(new URLSearchParams(window.location.search)));
+  const [roster, setRoster] = useState([]);
+  const [rosterNotice, setRosterNotice] = useState(null);
+  const [grants, setGrants] = useState([]);
+  const [notificationSettings, setNotificationSettings] = useState(loadNotificationSettings);
+  const [chosenMember, setChosenMember] = useState(() => localStorage.getItem('myDayMember') || '');
+  const [isLoadingGrants, setIsLoadingGrants] = useState(false);
+  const [grantsNotice, setGrantsNotice] = useState(null);
 
   const [gapiReady, setGapiReady] = useState(false);
   const [isSignedIn, setIsSignedIn] = useState(false);
   const [spreadsheetId, setSpreadsheetId] = useState(null);
   const [tokenClient, setTokenClient] = useState(null);
+  const [storageBackend, setStorageBackend] = useState<StorageBackend>(
+    () => localStorage.getItem('storageBackend') === 'local' ? 'local' : 'sheets'
+  );
+
+  const [queueEntries, setQueueEntries] = useState([]);
+
+  const isLocal = storageBackend === 'local';
+  const writeQueue = useMemo(() => createOfflineQueue(), []);
+  // Every edit is logged, by whoever is signed in, and offered for undo. Reverting one is
+  // itself an edit, and lands on the other stack.
+  const [userEmail, setUserEmail] = useState('');
+  const [undoStack, setUndoStack] = useState([]);
+  const [redoStack, setRedoStack] = useState([]);
+  const [auditVersion, setAuditVersion] = useState(0);
+  const [revertVersion, setRevertVersion] = useState(0);
+  const userRef = useRef('');
+  userRef.current = isLocal ? LOCAL_USER : userEmail;
+  const revertingRef = useRef(null);
+
+  const handleAuditChange = useCallback((change) => {
+    setAuditVersion(v => v + 1);
+    if (revertingRef.current === 'undo') {
+        setRedoStack(stack => [...stack, change]);
+    } else {
+        setUndoStack(stack => [...stack, change].slice(-MAX_UNDO));
+        if (!revertingRef.current) setRedoStack([]);
+    }
+  }, []);
+
+  const repository = useMemo(() => {
+    // Audited outside the queue, so edits are logged and offered for undo as they're made.
+    const build = (inner) => {
+        const synced = createSyncedRepository(inner, writeQueue);
+        const audited = createAuditedRepository(synced, { getUser: () => userRef.current, onChange: handleAuditChange });
+        return { ...audited, replay: synced.replay, retry: synced.retry, discard: synced.discard };
+    };
+    if (isLocal) return build(createLocalRepository());
+    return spreadsheetId ? build(createSheetsRepository(spreadsheetId)) : null;
+  }, [isLocal, spreadsheetId, writeQueue, handleAuditChange]);
+
+  useEffect(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, [repository]);
+
+  useEffect(() => writeQueue.subscribe(setQueueEntries), [writeQueue]);
 
   useEffect(() => {
     const savedId = localStorage.getItem('spreadsheetId');
@@ -522,6 +1096,9 @@ const App = () => {
                     if (tokenResponse && tokenResponse.access_token) {
                         window.gapi.client.setToken(tokenResponse);
                         setIsSignedIn(true);
+                        fetchUserEmail(tokenResponse.access_token)
+                            .then(setUserEmail)
+                            .catch(err => console.error('Error looking up the signed-in user:', err));
                     } else {
                         console.error('Authentication failed: Invalid token response.', tokenResponse);
                         setError('Authentication failed. Please try again.');
@@ -573,75 +1150,455 @@ const App = () => {
       setSpreadsheetId(null);
   };
 
-  const filters = {
+  const handleUseLocalWorkspace = () => {
+      localStorage.setItem('storageBackend', 'local');
+      setError(null);
+      setStorageBackend('local');
+  };
+
+  const handleLeaveLocalWorkspace = () => {
+      localStorage.removeItem('storageBackend');
+      setTasks([]);
+      setHasLoadedTasks(false);
+      setStorageBackend('sheets');
+  };
+
+  // Sub-tasks of every job, for the progress shown on job cards and in the calendar.
+  const fetchSubTasks = useCallback(async (projectNames) => {
+    try {
+        setSubTasksByProject(await repository.listSubTasksForProjects(projectNames));
+    } catch (err) {
+        console.error('Error loading sub-tasks:', err);
+    }
+  }, [repository]);
+
+  const handleSubTasksChange = useCallback((projectName, subTasks) => {
+    setSubTasksByProject(prev => ({ ...prev, [projectName]: subTasks }));
+  }, []);
+
+  const handleSubTaskSaved = useCallback((projectName, subTask) => {
+    setSubTasksByProject(prev => ({
+        ...prev,
+        [projectName]: (prev[projectName] || []).map(st => st.id === subTask.id ? subTask : st),
+    }));
+  }, []);
+
+  const fetchTasks = useCallback(async () => {
+    setIsLoadingTasks(true);
+    setError(null);
+    try {
+        const loadedTasks = await repository.listTasks();
+        setTasks(loadedTasks);
+        fetchSubTasks(loadedTasks.map(t => t.name));
+    } catch (err) {
+        console.error('Error fetching hub data:', err);
+        if (err instanceof SheetNotFoundError) {
+            setError(`Could not find a sheet named "${HUB_SHEET_NAME}". Add a "${HUB_SHEET_NAME}" tab to your Google Sheet to hold the Live Jobs list.`);
+        } else if (err instanceof MissingColumnsError) {
+            setError(html`<${MissingColumnsHelp} error=${err} onMapped=${() => fetchTasks()} />`);
+        } else {
+            setError('Could not load the Live Jobs list. Please check your connection and try again.');
+        }
+    } finally {
+        setIsLoadingTasks(false);
+        setHasLoadedTasks(true);
+    }
+  }, [repository, fetchSubTasks]);
+
+  // Sends queued edits, then reloads. A failed replay leaves the edits queued, marked failed
+  // for a retry or discard, and says so.
+  const replayAndFetch = useCallback(async () => {
+    let replayError = null;
+    try {
+        await repository.replay();
+    } catch (err) {
+        console.error('Failed to replay queued edits:', err);
+        replayError = err;
+    }
+    await fetchTasks();
+    if (replayError) setError('Some edits saved while offline couldn\'t be sent yet. They\'re kept, and will be sent again when you retry or reload.');
+  }, [repository, fetchTasks]);
+
+  useEffect(() => {
+    if (repository && (isLocal || isSignedIn)) {
+        // Push anything queued in an earlier session before loading the list.
+        replayAndFetch();
+    }
+  }, [repository, isLocal, isSignedIn, replayAndFetch]);
+
+  useEffect(() => {
+    if (!repository) return;
+    const handleOnline = () => replayAndFetch();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [repository, replayAndFetch]);
+
+  const handleRetryWrite = useCallback(async (entryId) => {
+    await repository.retry(entryId);
+    await fetchTasks();
+  }, [repository, fetchTasks]);
+
+  const handleDiscardWrite = useCallback(async (entryId) => {
+    await repository.discard(entryId);
+    await fetchTasks();
+  }, [repository, fetchTasks]);
+
+  const entriesForTask = (task) =>
+    queueEntries.filter(e => e.write.kind === 'updateTask' && e.write.task.id === task.id);
+  const queuedNewTasks = queueEntries.filter(e => e.write.kind === 'addTask');
+
+  const handleUpdateTask = useCallback(async (task, changes) => {
+    // Undo puts a job back exactly as it was, without rolling a repeat forward again.
+    const { updated: updatedTask, next } = revertingRef.current ? { updated: { ...task, ...changes }, next: null } : completeTask(task, changes);
+    const showTask = (shown, previous) => {
+        setTasks(prevTasks => prevTasks.map(t => t.id === task.id ? shown : t));
+        // Sub-tasks and the open project's link are keyed by name, so they follow a rename.
+        if (shown.name !== previous.name) {
+            const current = parseRoute(window.location.hash);
+            if (current.view === 'project' && current.project === previous.name) {
+                navigate({ view: 'project', project: shown.name }, { replace: true });
+            }
+            setSubTasksByProject(prev => {
+                if (!prev[previous.name]) return prev;
+                const next = { ...prev, [shown.name]: prev[previous.name] };
+                delete next[previous.name];
+                return next;
+            });
+        }
+    };
+    showTask(updatedTask, task);
+    try {
+        await repository.updateTask(updatedTask);
+        if (next) {
+            await repository.addTask(next).catch(err => {
+                console.error('Failed to add the next occurrence:', err);
+                alert(`"${updatedTask.name}" is done, but its next occurrence couldn't be added. Add "${next.name}" by hand.`);
+            });
+            await fetchTasks();
+        }
+    } catch (err) {
+        console.error('Failed to update hub sheet:', err);
+        if (err instanceof SheetExistsError) {
+            showTask(task, updatedTask);
+            alert(`${err.message} Choose another name for this job.`);
+        } else if (err instanceof TaskConflictError) {
+            alert(`${err.message} Your change was not saved; reloading the latest version.`);
+            await fetchTasks();
+        } else {
+            alert('Failed to save changes. Please try again.');
+        }
+    }
+  }, [repository, navigate, fetchTasks]);
+
+  // Puts a job, sub-task or grant back as it was before `change`, for undo (and, since the
+  // revert is logged as a change too, for redo).
+  const revertChange = useCallback(async (change, direction) => {
+    (direction === 'undo' ? setUndoStack : setRedoStack)(stack => stack.filter(c => c !== change));
+    const values = revertValues(change);
+    revertingRef.current = direction;
+    try {
+        if (change.kind === 'task') {
+            const task = tasks.find(t => t.uid === change.recordId);
+            if (!task) {
+                alert(`"${change.record}" has been removed since, so this change can't be reverted.`);
+                return;
+            }
+            await handleUpdateTask(task, values);
+        } else if (change.kind === 'grant') {
+            const grant = grants.find(g => g.id === change.recordId);
+            if (!grant) {
+                alert(`"${change.record}" has been removed since, so this change can't be reverted.`);
+                return;
+            }
+            const reverted = { ...grant, ...values };
+            await repository.updateGrant(reverted);
+            setGrants(current => current.map(g => g.id === grant.id ? reverted : g));
+        } else {
+            const subTask = (subTasksByProject[change.sheet] || []).find(st => st.id === change.recordId);
+            if (!subTask) {
+                alert(`"${change.record}" has been removed since, so this change can't be reverted.`);
+                return;
+            }
+            handleSubTaskSaved(change.sheet, await repository.updateSubTask(change.sheet, subTask, values) || { ...subTask, ...values });
+            setRevertVersion(v => v + 1);
+        }
+    } catch (err) {
+        console.error('Failed to revert change:', err);
+        alert(err instanceof SubTaskConflictError || err instanceof GrantConflictError
+            ? `${err.message} Reload to see the latest before undoing.`
+            : 'Could not revert the change. Please try again.');
+    } finally {
+        revertingRef.current = null;
+    }
+  }, [repository, tasks, subTasksByProject, grants, handleUpdateTask, handleSubTaskSaved]);
+
+  const handleUndo = useCallback(() => {
+    if (undoStack.length) revertChange(undoStack[undoStack.length - 1], 'undo');
+  }, [undoStack, revertChange]);
+
+  const handleRedo = useCallback(() => {
+    if (redoStack.length) revertChange(redoStack[redoStack.length - 1], 'redo');
+  }, [redoStack, revertChange]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on a Mac), except while typing, where they undo the text.
+  useEffect(() => {
+    const handleKeyDown = (e) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        const target = e.target as HTMLElement;
+        if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const undoControls = html`<${UndoControls} undoStack=${undoStack} redoStack=${redoStack} onUndo=${handleUndo} onRedo=${handleRedo} />`;
+
+  const fetchTeam = useCallback(async () => {
+    setRosterNotice(null);
+    try {
+        setRoster(await repository.listTeam());
+    } catch (err) {
+        console.error('Error fetching team roster:', err);
+        setRoster([]);
+        if (err instanceof SheetNotFoundError) {
+            setRosterNotice(`Add a "${TEAM_SHEET_NAME}" tab (Name, Email, Aliases, Role) to your Google Sheet to filter jobs by team member.`);
+        } else if (err instanceof MissingColumnsError) {
+            setRosterNotice(html`<${MissingColumnsHelp} error=${err} onMapped=${() => fetchTeam()} />`);
+        } else {
+            setRosterNotice('Could not load the team roster.');
+        }
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    if (repository && (isLocal || isSignedIn)) {
+        fetchTeam();
+    }
+  }, [repository, isLocal, isSignedIn, fetchTeam]);
+
+  const fetchGrants = useCallback(async () => {
+    setIsLoadingGrants(true);
+    setGrantsNotice(null);
+    try {
+        setGrants(await repository.listGrants());
+    } catch (err) {
+        console.error('Error fetching grants:', err);
+        setGrants([]);
+        if (err instanceof SheetNotFoundError) {
+            setGrantsNotice(`There's no "${GRANTS_SHEET_NAME}" tab yet. Adding a grant below creates it.`);
+        } else if (err instanceof MissingColumnsError) {
+            setGrantsNotice(html`<${MissingColumnsHelp} error=${err} onMapped=${() => fetchGrants()} />`);
+        } else {
+            setGrantsNotice('Could not load the grants.');
+        }
+    } finally {
+        setIsLoadingGrants(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    if (repository && (isLocal || isSignedIn)) {
+        fetchGrants();
+    }
+  }, [repository, isLocal, isSignedIn, fetchGrants]);
+
+  const handleAddGrant = async (grant) => {
+    try {
+        await repository.addGrant(grant);
+        await fetchGrants();
+    } catch (err) {
+        console.error('Failed to add grant:', err);
+        alert('Failed to add the grant. Please try again.');
+    }
+  };
+
+  const handleUpdateGrant = async (grant) => {
+    const previous = grants;
+    setGrants(grants.map(g => g.id === grant.id ? grant : g));
+    try {
+        await repository.updateGrant(grant);
+    } catch (err) {
+        console.error('Failed to update grant:', err);
+        if (err instanceof GrantConflictError) {
+            alert(`${err.message} Your change was not saved; reloading the grants.`);
+            await fetchGrants();
+        } else {
+            setGrants(previous);
+            alert('Failed to save changes. Please try again.');
+        }
+    }
+  };
+
+  const assigneeFilters = {
     'All': 'all',
-    'Taylor Trash': 'Taylor Trash',
-    'Jess Queen': 'jess@trashtv.productions',
-    'Sammy Harkin': 'sammy@trashtv.productions',
+    ...Object.fromEntries(roster.map(member => [member.name, member.name])),
   };
 
-  const handleAddTask = useCallback(async (e) => {
+  // Keep the current view in the URL so it survives a reload and can be shared.
+  useEffect(() => {
+    const query = filtersToParams(filters).toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [filters]);
+
+  useEffect(() => {
+    const handlePopState = () => setFilters(filtersFromParams(new URLSearchParams(window.location.search)));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // The hub input takes any request about the Live Jobs list. Gemini turns it into actions,
+  // which are previewed before anything is saved.
+  const handleCommand = useCallback(async (e) => {
     e.preventDefault();
     if (!newTaskInput.trim() || isLoading) return;
 
     setIsLoading(true);
     setError(null);
-
-    const schema = {
-      type: Type.OBJECT,
-      properties: {
-        name: { type: Type.STRING, description: 'The name or title of the task.' },
-        assignee: { type: Type.STRING, description: 'The full name or email of the person assigned to the task.' },
-        dueDate: { type: Type.STRING, description: 'The due date of the task in YYYY-MM-DD format.' },
-        priority: { type: Type.STRING, enum: ['High Priority', 'Mid-level Priority', 'Low Priority'], description: 'The priority of the task. Defaults to Low Priority if not specified.' },
-        notes: { type: Type.STRING, description: 'Any notes or additional details about the task.'}
-      },
-      required: ['name', 'assignee', 'dueDate', 'priority'],
-    };
+    setCommandPlan(null);
 
     try {
-      const prompt = `You are a project management assistant for a production company. Parse the following task request and extract the task name, the person it's assigned to, the due date, priority, and any notes. Today's date is ${new Date().toISOString().split('T')[0]}. If a year is not specified for a date, assume the current year or next year if the date has passed. Return the result in a JSON object that strictly adheres to the provided schema. Request: "${newTaskInput}"`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: schema,
-        },
-      });
-
-      const jsonString = response.text.trim();
-      const newTaskData = JSON.parse(jsonString);
-
-      if (newTaskData.name && newTaskData.assignee && newTaskData.dueDate) {
-          setTasks(prevTasks => [...prevTasks, { ...newTaskData, status: 'Todo', startDate: null }]);
-          setNewTaskInput('');
-      } else {
-          throw new Error("Invalid task data received from AI.");
+      const { actions } = await ai.generateJson<{ actions: CommandAction[] }>(
+        buildCommandPrompt(newTaskInput, tasks, roster, todayIso()),
+        COMMAND_SCHEMA,
+      );
+      const plan = planCommand(actions, tasks, roster);
+      if (!plan.changes.length) {
+        setError(plan.warnings.length ? plan.warnings.join(' ') : 'That request doesn\'t change any jobs.');
+        return;
       }
-
+      setCommandPlan(plan);
     } catch (err) {
       console.error(err);
-      setError('Sorry, I couldn\'t understand that. Please try rephrasing your request.');
+      setError(err instanceof AiNotConfiguredError ? err.message : 'Sorry, I couldn\'t understand that. Please try rephrasing your request.');
     } finally {
       setIsLoading(false);
     }
-  }, [newTaskInput, isLoading]);
+  }, [newTaskInput, isLoading, tasks, roster]);
+
+  const handleApplyCommand = useCallback(async (changes) => {
+    setIsApplyingCommand(true);
+    setError(null);
+    const failed = [];
+    for (const change of changes) {
+        try {
+            if (change.kind === 'create') await repository.addTask(change.task);
+            if (change.kind === 'update') {
+                const { updated, next } = completeTask(change.task, change.changes);
+                await repository.updateTask(updated);
+                if (next) await repository.addTask(next);
+            }
+            if (change.kind === 'delete') await repository.deleteTask(change.task);
+        } catch (err) {
+            console.error(`Failed to apply change to "${change.task.name}":`, err);
+            failed.push(err instanceof TaskConflictError || err instanceof SheetExistsError ? err.message : `Could not save "${change.task.name}".`);
+        }
+    }
+    setIsApplyingCommand(false);
+    setCommandPlan(null);
+    if (failed.length) {
+        setError(`Some changes weren't applied: ${failed.join(' ')}`);
+    } else {
+        setNewTaskInput('');
+    }
+    await fetchTasks();
+  }, [repository, fetchTasks]);
 
   const handleTaskClick = useCallback((task) => {
-    setSelectedTask(task);
-  }, []);
+    navigate({ view: 'project', project: task.name });
+  }, [navigate]);
+
+  // Returns false when the workflow doesn't allow the change, so the control can be put back.
+  const handleTaskStatusChange = useCallback((task, status) => {
+    if (status === task.status) return true;
+    if (!canTransition(task.status, status)) return refuseTransition(task.name, task.status, status);
+    handleUpdateTask(task, { status });
+    return true;
+  }, [handleUpdateTask]);
+
+  const handleTaskKeyDown = (e, task) => {
+    if (e.key === 'Enter') {
+      handleTaskClick(task);
+      return;
+    }
+    const status = statusFromShortcut(e);
+    if (status) {
+      e.preventDefault();
+      handleTaskStatusChange(task, status);
+    }
+  };
 
-  const handleBackClick = useCallback(() => {
-    setSelectedTask(null);
-  }, []);
+  const activeTab = route.view === 'hub' ? route.tab : 'jobs';
+  const setActiveTab = (tab) => navigate({ view: 'hub', tab });
+
+  const handleExportIcs = () => {
+    downloadFile('trashtv-live-jobs.ics', tasksToIcs(tasks), 'text/calendar');
+  };
+
+  const today = todayIso();
+  const visibleTasks = sortJobs(filterJobs(tasks, filters, roster, today), filters.sort);
+
+  // "My day" is for whoever is signed in, matched to the roster by email. Otherwise, or in the
+  // demo workspace, they pick themselves from the roster.
+  const identifiedMember = isLocal ? null : resolveAssignee(roster, userEmail);
+  const myName = identifiedMember?.name || (roster.some(m => m.name === chosenMember) ? chosenMember : '');
+  const myDeadlines = useMemo(
+    () => (myName ? collectDeadlines(tasks, subTasksByProject, roster, myName, today) : []),
+    [tasks, subTasksByProject, roster, myName, today],
+  );
+
+  const handleChooseMember = (name) => {
+    localStorage.setItem('myDayMember', name);
+    setChosenMember(name);
+  };
+
+  const handleNotificationSettingsChange = (settings) => {
+    saveNotificationSettings(settings);
+    setNotificationSettings(settings);
+  };
 
-  if (!gapiReady) {
+  const handleOpenDeadline = useCallback((item) => {
+    navigate({ view: 'project', project: item.project });
+  }, [navigate]);
+
+  useDeadlineNotifications(myDeadlines, notificationSettings, handleOpenDeadline);
+
+  // Follow-ups from the grant pipeline sit on the Live Jobs list beside the real jobs, and are
+  // filtered the same way (they have no priority, so a priority filter hides them).
+  const visibleReminders = filterJobs(
+    grantReminders(grants, today).map(reminder => ({ ...reminder, notes: null, priority: '', status: 'Todo', startDate: null })),
+    filters,
+    roster,
+    today,
+  ).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  const filterBar = html`
+    <div class="filter-container">
+      ${Object.keys(assigneeFilters).map(filterName => html`
+        <button
+          class="filter-button ${filters.assignee === assigneeFilters[filterName] ? 'active' : ''}"
+          onClick=${() => setFilters({ ...filters, assignee: assigneeFilters[filterName] })}
+        >
+          ${filterName}
+        </button>
+      `)}
+    </div>
+    <${JobFilterPanel} filters=${filters} onChange=${setFilters} resultCount=${visibleTasks.length} />
+    ${rosterNotice && html`<div class="feedback small roster-notice">${rosterNotice}</div>`}
+  `;
+
+  if (!isLocal && !gapiReady) {
     return html`<div class="container feedback loading">Initializing...</div>`;
   }
   
-  if (!isSignedIn) {
+  if (!isLocal && !isSignedIn) {
       return html`
         <div class="container">
            <div class="signin-container">
@@ -652,17 +1609,33 @@ const App = () => {
                     <svg width="18" height="18" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 488 512"><path fill="currentColor" d="M488 261.8C488 403.3 381.5 512 244 512 109.8 512 0 402.2 0 261.8 0 120.5 109.8 8.4 244 8.4c69.1 0 125.3 27.8 168.7 72.2l-67.7 66.8C314.6 114.6 282.4 96.3 244 96.3c-83.2 0-151.2 67.2-151.2 150.1s68 150.1 151.2 150.1c96.3 0 130.2-70.1 135-108.3H244v-85.3h236.1c2.3 12.7 3.9 26.9 3.9 41.4z"></path></svg>
                     Sign in with Google
                 </button>
+                <button onClick=${handleUseLocalWorkspace} class="local-workspace-button">
+                    Or explore a local demo workspace
+                </button>
             </div>
         </div>
       `;
   }
 
-  if (!spreadsheetId) {
+  if (!isLocal && !spreadsheetId) {
     return html`<div class="container"><${Setup} onSave=${handleSaveSpreadsheetId} /></div>`;
   }
 
-  if (selectedTask) {
-    return html`<${ProjectDetail} task=${selectedTask} onBack=${handleBackClick} spreadsheetId=${spreadsheetId} />`;
+  if (route.view === 'project') {
+    const selectedTask = tasks.find(t => t.name === route.project)
+      || tasks.find(t => t.name.toLowerCase() === route.project.toLowerCase());
+    if (!selectedTask) {
+      return html`
+        <div class="container">
+          <button onClick=${goBack} class="back-button">← Back to Hub</button>
+          ${error && html`<div class="feedback error">${error}</div>`}
+          ${!error && (!hasLoadedTasks || isLoadingTasks
+            ? html`<div class="feedback loading">Loading project...</div>`
+            : html`<div class="feedback">There's no job called "${route.project}" on the Live Jobs list.</div>`)}
+        </div>
+      `;
+    }
+    return html`<${ProjectDetail} task=${selectedTask} onBack=${goBack} onUpdateTask=${handleUpdateTask} roster=${roster} repository=${repository} queueEntries=${queueEntries} taskQueueEntries=${entriesForTask(selectedTask)} onRetryTaskWrite=${handleRetryWrite} onDiscardTaskWrite=${handleDiscardWrite} onSubTasksChange=${handleSubTasksChange} undoControls=${undoControls} revertVersion=${revertVersion} auditVersion=${auditVersion} />`;
   }
 
   return html`
@@ -670,22 +1643,35 @@ const App = () => {
       <header>
         <h1>TrashTV Production Hub</h1>
         <p>Your intelligent project dashboard, powered by Gemini.</p>
-        <button onClick=${handleChangeSpreadsheet} class="change-spreadsheet-btn">Change Spreadsheet</button>
+        ${isLocal
+          ? html`<button onClick=${handleLeaveLocalWorkspace} class="change-spreadsheet-btn">Leave Demo Workspace</button>`
+          : html`<button onClick=${handleChangeSpreadsheet} class="change-spreadsheet-btn">Change Spreadsheet</button>`}
+        ${undoControls}
       </header>
       
-      <form class="task-input-form" onSubmit=${handleAddTask}>
+      <form class="task-input-form" onSubmit=${handleCommand}>
         <input 
           type="text" 
           value=${newTaskInput} 
           onInput=${e => setNewTaskInput(e.currentTarget.value)}
-          placeholder="e.g., Edit sizzle reel for Jess, due next Friday"
-          aria-label="New task input"
-          disabled=${isLoading}
+          placeholder="e.g., Edit sizzle reel for Jess, due next Friday, or mark the Hot Ones shoot done"
+          aria-label="Add or change jobs"
+          disabled=${isLoading || isApplyingCommand}
         />
-        <button type="submit" disabled=${isLoading}>
-          ${isLoading ? 'Adding...' : 'Add Task'}
+        <button type="submit" disabled=${isLoading || isApplyingCommand}>
+          ${isLoading ? 'Thinking...' : 'Go'}
         </button>
       </form>
+      ${!ai.isConfigured && html`<div class="feedback error small">AI isn't configured: set GEMINI_API_KEY (or AI_PROVIDER=mock for made-up data) to add and change jobs by typing.</div>`}
+
+      ${commandPlan && html`
+        <${CommandPreview}
+          plan=${commandPlan}
+          isApplying=${isApplyingCommand}
+          onApply=${handleApplyCommand}
+          onCancel=${() => setCommandPlan(null)}
+        />
+      `}
 
       ${error && html`<div class="feedback error">${error}</div>`}
 
@@ -706,53 +1692,119 @@ const App = () => {
         >
           Werk Calendar
         </button>
+        <button 
+          class="tab-button ${activeTab === 'board' ? 'active' : ''}" 
+          onClick=${() => setActiveTab('board')}
+          role="tab"
+          aria-selected=${activeTab === 'board'}
+        >
+          Board
+        </button>
+        <button 
+          class="tab-button ${activeTab === 'grants' ? 'active' : ''}" 
+          onClick=${() => setActiveTab('grants')}
+          role="tab"
+          aria-selected=${activeTab === 'grants'}
+        >
+          Grants
+        </button>
       </div>
 
       <div class="tab-content">
         ${activeTab === 'jobs' && html`
           <div class="task-list-container" role="tabpanel">
-            <div class="filter-container">
-              ${Object.keys(filters).map(filterName => html`
-                <button
-                  class="filter-button ${activeFilter === filters[filterName] ? 'active' : ''}"
-                  onClick=${() => setActiveFilter(filters[filterName])}
-                >
-                  ${filterName}
-                </button>
-              `)}
+            <${MyDay}
+              member=${myName}
+              isIdentified=${Boolean(identifiedMember)}
+              roster=${roster}
+              items=${myDeadlines}
+              settings=${notificationSettings}
+              onSettingsChange=${handleNotificationSettingsChange}
+              onChooseMember=${handleChooseMember}
+              onOpen=${handleOpenDeadline}
+            />
+            ${filterBar}
+            <div class="list-actions">
+              <button class="secondary-button" onClick=${handleExportIcs} disabled=${!tasks.length}>Export to calendar (.ics)</button>
+              <button class="secondary-button" onClick=${() => setIsReportOpen(true)} disabled=${!tasks.length || isReportOpen}>Generate weekly report</button>
             </div>
-            ${isLoading && tasks.length === 0 && html`<div class="feedback loading">Loading tasks...</div>`}
+            ${isReportOpen && html`
+              <${WeeklyReport}
+                tasks=${tasks}
+                subTasksByProject=${subTasksByProject}
+                roster=${roster}
+                repository=${repository}
+                ai=${ai}
+                onClose=${() => setIsReportOpen(false)}
+              />
+            `}
+            ${isLoadingTasks && tasks.length === 0 && html`<div class="feedback loading">Loading tasks...</div>`}
             <ul class="task-list">
-              ${tasks.filter(task => activeFilter === 'all' || task.assignee === activeFilter)
-                .sort((a, b) => {
-                  const dateA = a.dueDate ? new Date(a.dueDate + 'T00:00:00').getTime() : Infinity;
-                  const dateB = b.dueDate ? new Date(b.dueDate + 'T00:00:00').getTime() : Infinity;
-                  return dateA - dateB;
-                })
-                .map(task => html`
-                  <li class="task-item priority-${task.priority.replace(/\s+/g, '-').toLowerCase()}" key=${task.name + task.dueDate} onClick=${() => handleTaskClick(task)} role="button" tabindex="0" aria-label="View details for ${task.name}">
+              ${visibleReminders.map(reminder => html`
+                <li class="task-item task-reminder" key=${`grant-${reminder.key}`} onClick=${() => setActiveTab('grants')} onKeyDown=${(e) => e.key === 'Enter' && setActiveTab('grants')} role="button" tabindex="0" aria-label="Open grants for ${reminder.name}">
+                  <div class="task-item-details">
+                    <span class="name">${reminder.name}</span>
+                    <span class="assignee">Assigned to: ${reminder.assignee || 'Unassigned'}</span>
+                  </div>
+                  <div class="task-item-meta">
+                    <span class="reminder-badge">Grant</span>
+                    <span class="due-date ${reminder.dueDate < todayIso() ? 'overdue' : ''}">${formatDate(reminder.dueDate)}</span>
+                  </div>
+                </li>
+              `)}
+              ${visibleTasks.map(task => html`
+                  <li class="task-item priority-${task.priority.replace(/\s+/g, '-').toLowerCase()} ${dueClass(task.dueDate, task.status, today)}" key=${task.id} onClick=${() => handleTaskClick(task)} onKeyDown=${(e) => handleTaskKeyDown(e, task)} role="button" tabindex="0" aria-label="View details for ${task.name}">
                     <div class="task-item-details">
                       <span class="name">${task.name}</span>
-                      <span class="assignee">Assigned to: ${task.assignee}</span>
+                      <span class="assignee">Assigned to: ${task.assignee} <${AssigneeWarning} roster=${roster} assignee=${task.assignee} /></span>
+                      <${JobProgress} subTasks=${subTasksByProject[task.name]} />
                     </div>
                     <div class="task-item-meta">
-                      <span class="status-indicator status-${task.status.replace(/\s+/g, '-').toLowerCase()}">${task.status}</span>
-                      ${task.dueDate && html`<span class="due-date">${new Date(task.dueDate + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>`}
+                      <${SyncBadge} entries=${entriesForTask(task)} onRetry=${handleRetryWrite} onDiscard=${handleDiscardWrite} />
+                      <${StatusSelect} status=${task.status} onChange=${(status) => handleTaskStatusChange(task, status)} label="Status for ${task.name}" />
+                      <${RepeatBadge} recurrence=${task.recurrence} />
+                      <${DueBadge} dueDate=${task.dueDate} status=${task.status} today=${today} />
+                      ${task.dueDate && html`<span class="due-date">${formatDate(task.dueDate)}</span>`}
                     </div>
                   </li>
                 `)}
+              ${queuedNewTasks.map(entry => html`
+                <li class="task-item task-queued priority-${(entry.write.task.priority || '').replace(/\s+/g, '-').toLowerCase()}" key=${`queued-${entry.id}`}>
+                  <div class="task-item-details">
+                    <span class="name">${entry.write.task.name}</span>
+                    <span class="assignee">Assigned to: ${entry.write.task.assignee}</span>
+                  </div>
+                  <div class="task-item-meta">
+                    <${SyncBadge} entries=${[entry]} onRetry=${handleRetryWrite} onDiscard=${handleDiscardWrite} />
+                  </div>
+                </li>
+              `)}
             </ul>
           </div>
         `}
+        ${activeTab === 'board' && html`
+          <div class="board-container" role="tabpanel">
+            ${filterBar}
+            ${isLoadingTasks && tasks.length === 0 && html`<div class="feedback loading">Loading tasks...</div>`}
+            <${KanbanBoard} tasks=${visibleTasks} onStatusChange=${handleTaskStatusChange} onTaskClick=${handleTaskClick} />
+          </div>
+        `}
+        ${activeTab === 'grants' && html`
+          <div class="grants-container" role="tabpanel">
+            <${GrantsTracker}
+              grants=${grants}
+              roster=${roster}
+              isLoading=${isLoadingGrants}
+              notice=${grantsNotice}
+              onAddGrant=${handleAddGrant}
+              onUpdateGrant=${handleUpdateGrant}
+            />
+          </div>
+        `}
         ${activeTab === 'calendar' && html`
           <div class="calendar-container" role="tabpanel">
-            <iframe 
-              src="https://calendar.google.com/calendar/embed?src=family10870860777471349340%4@group.calendar.google.com&ctz=Europe%2FLondon"
-              class="calendar-iframe"
-              frameBorder="0"
-              scrolling="no"
-              title="Production Calendar"
-            ></iframe>
+            ${filterBar}
+            <${WerkCalendar} tasks=${visibleTasks} subTasksByProject=${subTasksByProject} repository=${repository} onUpdateTask=${handleUpdateTask} onSubTaskSaved=${handleSubTaskSaved} onTaskClick=${handleTaskClick} />
           </div>
         `}
       </div>
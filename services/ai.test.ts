@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Type, type Schema } from '@google/genai';
+import {
+    AiNotConfiguredError, AiResponseError, createAiService, createDefaultAiService, createMockProvider, isRetryable, validateSchema,
+    type AiProvider,
+} from './ai';
+import { COMMAND_SCHEMA } from './commands';
+
+const SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        stage: { type: Type.STRING, enum: ['Drafting', 'Submitted'] },
+        steps: { type: Type.ARRAY, items: { type: Type.INTEGER }, minItems: '1' },
+        notes: { type: Type.STRING, nullable: true },
+    },
+    required: ['stage', 'steps'],
+};
+
+// The mock provider, with the given raw responses served first.
+const scripted = (...responses: (string | Error)[]): AiProvider & { calls: number } => {
+    const mock = createMockProvider();
+    const provider = {
+        name: 'scripted',
+        calls: 0,
+        async generate(prompt: string, schema: Schema, model: string) {
+            const next = responses[provider.calls++];
+            if (next instanceof Error) throw next;
+            return next ?? mock.generate(prompt, schema, model);
+        },
+    };
+    return provider;
+};
+
+describe('validateSchema', () => {
+    it('accepts a response that fits the schema', () => {
+        expect(validateSchema({ stage: 'Drafting', steps: [1, 2], notes: null }, SCHEMA)).toEqual([]);
+    });
+
+    it('lists every mismatch with where it is', () => {
+        expect(validateSchema({ stage: 'Won', steps: [1, 2.5] }, SCHEMA)).toEqual([
+            'response.stage should be one of Drafting, Submitted',
+            'response.steps[1] should be a whole number',
+        ]);
+        expect(validateSchema({ steps: [] }, SCHEMA)).toEqual(['response.stage is missing', 'response.steps should have at least 1 items']);
+        expect(validateSchema([], SCHEMA)).toEqual(['response should be an object']);
+    });
+});
+
+describe('isRetryable', () => {
+    it('retries rate limits, server errors, network failures and malformed responses', () => {
+        expect(isRetryable(Object.assign(new Error('Too many requests'), { status: 429 }))).toBe(true);
+        expect(isRetryable(new Error('got status: 503 Service Unavailable'))).toBe(true);
+        expect(isRetryable(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isRetryable(new AiResponseError(['response is not valid JSON']))).toBe(true);
+    });
+
+    it('doesn\'t retry requests that will fail the same way again', () => {
+        expect(isRetryable(new Error('got status: 400 API key not valid'))).toBe(false);
+        expect(isRetryable(new AiNotConfiguredError())).toBe(false);
+    });
+});
+
+describe('createAiService', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+    });
+
+    it('gets a response from the mock that fits the schema it was asked for', async () => {
+        const service = createAiService(createMockProvider());
+        const response = service.generateJson('#1 | Logo design\nRequest: "move the logo to Friday"', COMMAND_SCHEMA);
+        await vi.runAllTimersAsync();
+        expect(validateSchema(await response, COMMAND_SCHEMA)).toEqual([]);
+    });
+
+    it('retries a response that doesn\'t fit the schema', async () => {
+        const provider = scripted('not json', JSON.stringify({ stage: 'Won', steps: [1] }));
+        const response = createAiService(provider).generateJson('"Draft the ITV application"', SCHEMA);
+        await vi.runAllTimersAsync();
+        expect(validateSchema(await response, SCHEMA)).toEqual([]);
+        expect(provider.calls).toBe(3);
+    });
+
+    it('gives up after three attempts, waiting longer before each retry', async () => {
+        const provider = scripted(...Array(5).fill(new Error('got status: 503')));
+        const response = createAiService(provider).generateJson('prompt', SCHEMA);
+        const failed = expect(response).rejects.toThrow('got status: 503');
+        await vi.advanceTimersByTimeAsync(799);
+        expect(provider.calls).toBe(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(provider.calls).toBe(2);
+        await vi.advanceTimersByTimeAsync(1600);
+        expect(provider.calls).toBe(3);
+        await failed;
+    });
+
+    it('fails straight away on an error that retrying won\'t fix', async () => {
+        const provider = scripted(new Error('got status: 400 API key not valid'));
+        await expect(createAiService(provider).generateJson('prompt', SCHEMA)).rejects.toThrow('400');
+        expect(provider.calls).toBe(1);
+    });
+
+    it('says AI isn\'t configured when there\'s no key and the mock wasn\'t asked for', async () => {
+        vi.stubEnv('API_KEY', '');
+        vi.stubEnv('AI_PROVIDER', '');
+        const service = createDefaultAiService();
+        expect(service.isConfigured).toBe(false);
+        await expect(service.generateJson('prompt', SCHEMA)).rejects.toBeInstanceOf(AiNotConfiguredError);
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, Type, type Schema } from '@google/genai';
+import { addDays, todayIso } from '../utils/dates';
+
+// Every AI feature goes through here: the prompt and response schema go to a provider, and
+// what comes back is parsed and checked against that same schema before anyone uses it.
+
+export const DEFAULT_MODEL = 'gemini-2.5-pro';
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 800;
+
+// Produces the raw JSON text for a prompt.
+export interface AiProvider {
+    name: string;
+    generate(prompt: string, schema: Schema, model: string): Promise<string>;
+}
+
+export interface AiService {
+    provider: string;
+    model: string;
+    // False when there's no API key and the mock wasn't asked for, so every request fails.
+    isConfigured: boolean;
+    // Resolves with a response that matches `schema`, retrying malformed responses and
+    // transient failures.
+    generateJson<T = unknown>(prompt: string, schema: Schema): Promise<T>;
+}
+
+// Thrown for every request when no provider is set up.
+export class AiNotConfiguredError extends Error {
+    constructor() {
+        super('AI features aren\'t configured: set GEMINI_API_KEY, or AI_PROVIDER=mock to try them with made-up data.');
+        this.name = 'AiNotConfiguredError';
+    }
+}
+
+// Thrown when the provider's response is not valid JSON or doesn't match the schema.
+export class AiResponseError extends Error {
+    problems: string[];
+
+    constructor(problems: string[]) {
+        super(`The AI response didn't match the expected format: ${problems.join('; ')}`);
+        this.name = 'AiResponseError';
+        this.problems = problems;
+    }
+}
+
+/**
+ * Checks a parsed response against a response schema and lists everything that doesn't
+ * match. Covers the parts of the schema format the app uses: types, required properties,
+ * enums, nullable values and array lengths.
+ */
+export const validateSchema = (value: unknown, schema: Schema, path = 'response'): string[] => {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path} is missing`];
+    }
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+            const record = value as Record<string, unknown>;
+            return [
+                ...(schema.required || [])
+                    .filter(key => record[key] === undefined || record[key] === null)
+                    .map(key => `${path}.${key} is missing`),
+                ...Object.entries(schema.properties || {})
+                    .filter(([key]) => record[key] !== undefined && record[key] !== null)
+                    .flatMap(([key, property]) => validateSchema(record[key], property, `${path}.${key}`)),
+            ];
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) return [`${path} should be a list`];
+            const problems = schema.minItems && value.length < Number(schema.minItems)
+                ? [`${path} should have at least ${schema.minItems} items`]
+                : [];
+            return schema.items
+                ? [...problems, ...value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`))]
+                : problems;
+        }
+        case Type.STRING:
+            if (typeof value !== 'string') return [`${path} should be text`];
+            return schema.enum && !schema.enum.includes(value)
+                ? [`${path} should be one of ${schema.enum.join(', ')}`]
+                : [];
+        case Type.INTEGER:
+            return Number.isInteger(value) ? [] : [`${path} should be a whole number`];
+        case Type.NUMBER:
+            return typeof value === 'number' ? [] : [`${path} should be a number`];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path} should be true or false`];
+        default:
+            return [];
+    }
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+    const client = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+        async generate(prompt, schema, model) {
+            const response = await client.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                },
+            });
+            return response.text;
+        },
+    };
+};
+
+// FNV-1a, so the same prompt always seeds the same mock response.
+const hash = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// mulberry32
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * A stand-in for Gemini that needs no key or network. It answers any prompt with made-up data
+ * that fits the schema, and always the same data for the same prompt, so AI features can be
+ * worked on and demoed offline. Text is built from the last quoted phrase in the prompt (the
+ * user's request, in the app's prompts), and whole numbers are picked from any "#12"-style
+ * numbers the prompt lists.
+ */
+export const createMockProvider = (): AiProvider => ({
+    name: 'mock',
+    async generate(prompt, schema) {
+        const random = seededRandom(hash(prompt));
+        const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+        const quoted = [...prompt.matchAll(/"([^"]+)"/g)].map(m => m[1]);
+        const topic = (quoted[quoted.length - 1] || 'Mock task').slice(0, 40);
+        const ids = [...prompt.matchAll(/#(\d+)/g)].map(m => Number(m[1]));
+
+        const build = (s: Schema, key: string, index: number): unknown => {
+            switch (s.type) {
+                case Type.OBJECT:
+                    return Object.fromEntries(Object.entries(s.properties || {})
+                        .filter(([name]) => s.required?.includes(name) || random() < 0.5)
+                        .map(([name, property]) => [name, build(property, name, index)]));
+                case Type.ARRAY: {
+                    const length = Math.max(Number(s.minItems || 0), 1 + Math.floor(random() * 3));
+                    return Array.from({ length }, (_, i) => build(s.items || { type: Type.STRING }, key, i + 1));
+                }
+                case Type.STRING:
+                    if (s.enum?.length) return pick(s.enum);
+                    if (s.description?.includes('YYYY-MM-DD')) return addDays(todayIso(), 1 + Math.floor(random() * 14));
+                    return `${topic} (${key} ${index})`;
+                case Type.INTEGER:
+                    return ids.length ? pick(ids) : Math.floor(random() * 10);
+                case Type.NUMBER:
+                    return Math.round(random() * 1000) / 10;
+                case Type.BOOLEAN:
+                    return random() < 0.5;
+                default:
+                    return null;
+            }
+        };
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        return JSON.stringify(build(schema, 'item', 1));
+    },
+});
+
+// Stands in when there's no key, so AI features say so instead of quietly using the mock.
+const createUnconfiguredProvider = (): AiProvider => ({
+    name: 'none',
+    async generate() {
+        throw new AiNotConfiguredError();
+    },
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The HTTP status of a failed request, which the Gemini client only puts in its message.
+const statusOf = (err): number | null => {
+    if (typeof err?.status === 'number') return err.status;
+    const match = String(err?.message || '').match(/got status: (\d{3})/);
+    return match ? Number(match[1]) : null;
+};
+
+/**
+ * Whether trying again could help: malformed responses, rate limits, server errors and
+ * network failures (which fetch reports as a TypeError). Other 4xx errors, such as a bad key,
+ * fail the same way every time.
+ */
+export const isRetryable = (err: unknown) => {
+    if (err instanceof AiResponseError) return true;
+    const status = statusOf(err);
+    if (status !== null) return status === 429 || status >= 500;
+    return err instanceof TypeError;
+};
+
+export const createAiService = (provider: AiProvider, model = DEFAULT_MODEL): AiService => ({
+    provider: provider.name,
+    model,
+    isConfigured: provider.name !== 'none',
+    async generateJson<T>(prompt: string, schema: Schema) {
+        let lastError: unknown;
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+            if (attempt > 0) await wait(BASE_DELAY_MS * 2 ** (attempt - 1));
+            try {
+                const text = await provider.generate(prompt, schema, model);
+                let value: unknown;
+                try {
+                    value = JSON.parse((text || '').trim());
+                } catch {
+                    throw new AiResponseError(['response is not valid JSON']);
+                }
+                const problems = validateSchema(value, schema);
+                if (problems.length) throw new AiResponseError(problems);
+                return value as T;
+            } catch (err) {
+                console.warn(`AI request failed (attempt ${attempt + 1} of ${MAX_ATTEMPTS}):`, err);
+                lastError = err;
+                if (!isRetryable(err)) break;
+            }
+        }
+        throw lastError;
+    },
+});
+
+/**
+ * The service the app uses, set up from the environment: GEMINI_MODEL picks the model, and
+ * AI_PROVIDER=mock switches to the offline mock. The mock is only used when asked for, as its
+ * made-up plans would otherwise be applied to real jobs; with no API key either, every request
+ * fails with AiNotConfiguredError.
+ */
+export const createDefaultAiService = (): AiService => {
+    const apiKey = process.env.API_KEY;
+    const provider = process.env.AI_PROVIDER === 'mock'
+        ? createMockProvider()
+        : apiKey ? createGeminiProvider(apiKey) : createUnconfiguredProvider();
+    return createAiService(provider, process.env.GEMINI_MODEL || DEFAULT_MODEL);
+};
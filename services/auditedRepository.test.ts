@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Repository } from './repository';
+import { createLocalRepository } from './localRepository';
+import { createOfflineQueue } from './offlineQueue';
+import { createSyncedRepository, type SyncedRepository } from './syncedRepository';
+import { createAuditedRepository, revertValues, type AuditChange } from './auditedRepository';
+import { newTask, newSubTask } from './fixtures';
+
+describe('createAuditedRepository', () => {
+    const network = { onLine: true };
+    let inner: Repository;
+    let synced: SyncedRepository;
+    let changes: AuditChange[];
+    let repository: Repository;
+
+    beforeEach(() => {
+        network.onLine = true;
+        vi.stubGlobal('navigator', network);
+        inner = createLocalRepository(null);
+        changes = [];
+        synced = createSyncedRepository(inner, createOfflineQueue());
+        repository = createAuditedRepository(synced, {
+            getUser: () => 'jess@trashtv.productions',
+            onChange: change => changes.push(change),
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('logs each changed field against the job\'s ID, with the old value as last listed', async () => {
+        const [task] = await repository.listTasks();
+        const reads = vi.spyOn(synced, 'listTasks');
+
+        await repository.updateTask({ ...task, notes: 'Mine', status: 'Blocked' });
+        expect(reads).not.toHaveBeenCalled();
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({ kind: 'task', recordId: task.uid });
+        expect(changes[0].fields).toEqual([
+            { field: 'status', oldValue: task.status, newValue: 'Blocked' },
+            { field: 'notes', oldValue: task.notes || '', newValue: 'Mine' },
+        ]);
+        expect((await repository.listAudit()).map(e => [e.user, e.field])).toEqual([
+            ['jess@trashtv.productions', 'status'],
+            ['jess@trashtv.productions', 'notes'],
+        ]);
+    });
+
+    it('reads the old values of a job it hasn\'t listed', async () => {
+        const [task] = await inner.listTasks();
+        await repository.updateTask({ ...task, status: 'Blocked' });
+        expect(changes[0].fields).toEqual([{ field: 'status', oldValue: task.status, newValue: 'Blocked' }]);
+    });
+
+    it('logs new jobs and sub-tasks against the IDs they\'re saved with', async () => {
+        await repository.addTask(newTask('Sizzle reel'));
+        await repository.addSubTasks('Sizzle reel', [newSubTask('Pick clips')]);
+        const [job] = (await inner.listTasks()).filter(t => t.name === 'Sizzle reel');
+        const [clips] = await inner.listSubTasks('Sizzle reel');
+        expect((await inner.listAudit()).map(e => [e.field, e.recordId])).toEqual([['(added)', job.uid], ['(added)', clips.id]]);
+    });
+
+    it('records edits made offline straight away and writes the log once back online', async () => {
+        const [task] = await repository.listTasks();
+        network.onLine = false;
+        await repository.updateTask({ ...task, status: 'Blocked' });
+        expect(changes).toHaveLength(1);
+        expect(await inner.listAudit()).toEqual([]);
+
+        network.onLine = true;
+        await synced.replay();
+        expect((await inner.listTasks())[0].status).toBe('Blocked');
+        expect((await inner.listAudit()).map(e => e.newValue)).toEqual(['Blocked']);
+    });
+
+    it('reverts a sub-task edit, lists included', async () => {
+        const [, cut] = await repository.listSubTasks('Chai x Pasty GRWM');
+        await repository.updateSubTask('Chai x Pasty GRWM', cut, { dependsOn: [] });
+        expect(revertValues(changes[0])).toEqual({ dependsOn: ['demo-grwm-ingest'] });
+    });
+
+    it('logs grant edits against the grant\'s ID and reverts them, amounts and lists included', async () => {
+        const [grant] = await repository.listGrants();
+        await repository.updateGrant({ ...grant, amountRequested: 12000, reportingDeadlines: ['2026-03-31'], notes: 'Chased' });
+        expect(changes[0]).toMatchObject({ kind: 'grant', recordId: grant.id });
+        await repository.updateGrant({ ...grant, ...revertValues(changes[0]) });
+        expect((await inner.listGrants())[0]).toEqual(grant);
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, Grant, NewTask, NewSubTask, NewGrant, AuditEntry } from '../types';
+import { createTaskId, createSubTaskId, createGrantId, type Repository } from './repository';
+import { parseAmount } from './grants';
+import { TABLE_FIELDS } from './columns';
+import { HUB_SHEET_NAME, GRANTS_SHEET_NAME, TEMPLATES_SHEET_NAME } from './sheetsRepository';
+
+export type AuditKind = 'task' | 'subTask' | 'grant' | 'template';
+
+export interface FieldChange {
+    field: string;
+    oldValue: string;
+    newValue: string;
+}
+
+// Everything one edit changed on one record, for the audit log and for undo.
+export interface AuditChange {
+    changeId: string;
+    kind: AuditKind;
+    sheet: string;
+    recordId: string;
+    record: string;
+    fields: FieldChange[];
+}
+
+export interface AuditOptions {
+    // Who is making the edits, as recorded in the log.
+    getUser(): string;
+    // Called once an edit to an existing record has been saved, e.g. to offer undo.
+    onChange?(change: AuditChange): void;
+}
+
+const TASK_FIELDS: (keyof NewTask)[] = ['name', 'priority', 'assignee', 'status', 'startDate', 'dueDate', 'notes', 'recurrence'];
+const SUBTASK_FIELDS: (keyof NewSubTask)[] = ['name', 'assignee', 'status', 'notes', 'dueDate', 'recurrence', 'dependsOn'];
+const GRANT_FIELDS = TABLE_FIELDS.grant.map(spec => spec.field).filter(field => field !== 'id') as (keyof NewGrant)[];
+
+// Job fields stored as null when empty.
+const NULLABLE_TASK_FIELDS = ['startDate', 'dueDate', 'notes', 'recurrence'];
+
+// Sub-task fields holding a list, logged comma-separated.
+const LIST_SUBTASK_FIELDS = ['dependsOn'];
+
+// Grant fields stored as null when empty, those holding an amount, and those holding a list.
+const NULLABLE_GRANT_FIELDS = ['submissionDeadline', 'notes'];
+const AMOUNT_GRANT_FIELDS = ['amountRequested', 'amountAwarded'];
+const LIST_GRANT_FIELDS = ['reportingDeadlines'];
+
+// How a value is written in the log: lists comma-separated, and nothing as an empty cell.
+const auditValue = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const diffFields = (before: object | undefined, after: object, fields: string[]): FieldChange[] =>
+    fields
+        .map(field => ({ field, oldValue: auditValue(before?.[field]), newValue: auditValue(after[field]) }))
+        .filter(change => change.oldValue !== change.newValue);
+
+/**
+ * The values that put a job, sub-task or grant back as it was before the change. Writing them
+ * is a change of its own, the exact reverse, so reverting that one again redoes the original.
+ */
+const revertValue = (kind: AuditKind, field: string, oldValue: string) => {
+    if (kind === 'task' && NULLABLE_TASK_FIELDS.includes(field) && !oldValue) return null;
+    if (kind === 'subTask' && LIST_SUBTASK_FIELDS.includes(field)) return oldValue.split(', ').filter(Boolean);
+    if (kind === 'grant' && NULLABLE_GRANT_FIELDS.includes(field) && !oldValue) return null;
+    if (kind === 'grant' && AMOUNT_GRANT_FIELDS.includes(field)) return parseAmount(oldValue);
+    if (kind === 'grant' && LIST_GRANT_FIELDS.includes(field)) return oldValue.split(', ').filter(Boolean);
+    return oldValue;
+};
+
+export const revertValues = (change: AuditChange) =>
+    Object.fromEntries(change.fields.map(({ field, oldValue }) => [field, revertValue(change.kind, field, oldValue)]));
+
+export const fieldLabel = (kind: AuditKind, field: string) =>
+    TABLE_FIELDS[kind].find(spec => spec.field === field)?.label || field;
+
+// A short description of a change, e.g. `Status of "Edit Suite"`.
+export const describeChange = (change: AuditChange) => {
+    const labels = change.fields.map(f => fieldLabel(change.kind, f.field)).join(', ');
+    return `${labels} of "${change.record}"`;
+};
+
+/**
+ * Wraps a repository so that every write made through it is recorded in the audit log: who
+ * made it and when, and each field's old and new value. Old values for jobs and grants are
+ * the row as the app last listed it, the same values it showed when the edit was made, and
+ * are only read from the sheet for one it hasn't listed; sub-task edits carry their own.
+ *
+ * Goes outside the offline queue, so an edit is logged and offered for undo when it's made,
+ * not when it reaches the sheet. A failure to write the log is reported but never fails the
+ * edit itself, which has already been saved or queued by then.
+ */
+export const createAuditedRepository = (inner: Repository, { getUser, onChange }: AuditOptions): Repository => {
+    // By job ID, as row numbers shift when jobs above are deleted.
+    const tasks = new Map<string, Task>();
+    const grants = new Map<string, Grant>();
+
+    const currentTask = async (task: Task) => {
+        if (tasks.has(task.uid)) return tasks.get(task.uid);
+        try {
+            return (await inner.listTasks()).find(t => t.uid === task.uid);
+        } catch (err) {
+            console.warn('Could not read the job before editing it, so logging it without old values:', err);
+            return undefined;
+        }
+    };
+
+    const currentGrant = async (grant: Grant) => {
+        if (grants.has(grant.id)) return grants.get(grant.id);
+        try {
+            return (await inner.listGrants()).find(g => g.id === grant.id);
+        } catch (err) {
+            console.warn('Could not read the grant before editing it, so logging it without old values:', err);
+            return undefined;
+        }
+    };
+
+    const record = async (change: Omit<AuditChange, 'changeId'>, notify = true) => {
+        if (!change.fields.length) return;
+        const full = { ...change, changeId: crypto.randomUUID() };
+        const timestamp = new Date().toISOString();
+        const user = getUser();
+        const entries: AuditEntry[] = full.fields.map(({ field, oldValue, newValue }) => ({
+            timestamp, user, sheet: full.sheet, recordId: full.recordId, record: full.record,
+            field, oldValue, newValue, changeId: full.changeId,
+        }));
+        try {
+            await inner.appendAudit(entries);
+        } catch (err) {
+            console.error('Failed to write the audit log:', err);
+        }
+        if (notify) onChange?.(full);
+    };
+
+    const added = (kind: AuditKind, sheet: string, recordId: string, name: string) =>
+        record({ kind, sheet, recordId, record: name, fields: [{ field: '(added)', oldValue: '', newValue: name }] }, false);
+
+    return {
+        async listTasks() {
+            const result = await inner.listTasks();
+            tasks.clear();
+            result.forEach(task => tasks.set(task.uid, { ...task }));
+            return result;
+        },
+
+        // New jobs, sub-tasks and grants get their IDs here, so the log can name them.
+        async addTask(task) {
+            const uid = task.uid || createTaskId();
+            await inner.addTask({ ...task, uid });
+            await added('task', HUB_SHEET_NAME, uid, task.name);
+        },
+
+        async updateTask(task) {
+            const before = await currentTask(task);
+            await inner.updateTask(task);
+            tasks.set(task.uid, { ...task });
+            await record({ kind: 'task', sheet: HUB_SHEET_NAME, recordId: task.uid, record: task.name, fields: diffFields(before, task, TASK_FIELDS) });
+        },
+
+        async deleteTask(task) {
+            await inner.deleteTask(task);
+            tasks.delete(task.uid);
+            await record({
+                kind: 'task', sheet: HUB_SHEET_NAME, recordId: task.uid, record: task.name,
+                fields: [{ field: '(deleted)', oldValue: task.name, newValue: '' }],
+            }, false);
+        },
+
+        async addSubTasks(projectName, subTasks) {
+            const withIds = subTasks.map(subTask => ({ ...subTask, id: subTask.id || createSubTaskId() }));
+            await inner.addSubTasks(projectName, withIds);
+            for (const subTask of withIds) {
+                await added('subTask', projectName, subTask.id, subTask.name);
+            }
+        },
+
+        async updateSubTask(projectName, subTask, changes) {
+            const saved = await inner.updateSubTask(projectName, subTask, changes);
+            await record({
+                kind: 'subTask', sheet: projectName, recordId: subTask.id, record: changes.name || subTask.name,
+                fields: diffFields(subTask, { ...subTask, ...changes }, SUBTASK_FIELDS),
+            });
+            return saved;
+        },
+
+        async listGrants() {
+            const result = await inner.listGrants();
+            grants.clear();
+            result.forEach(grant => grants.set(grant.id, { ...grant }));
+            return result;
+        },
+
+        async addGrant(grant) {
+            const id = grant.id || createGrantId();
+            await inner.addGrant({ ...grant, id });
+            await added('grant', GRANTS_SHEET_NAME, id, grant.name);
+        },
+
+        async updateGrant(grant) {
+            const before = await currentGrant(grant);
+            await inner.updateGrant(grant);
+            grants.set(grant.id, { ...grant });
+            await record({ kind: 'grant', sheet: GRANTS_SHEET_NAME, recordId: grant.id, record: grant.name, fields: diffFields(before, grant, GRANT_FIELDS) });
+        },
+
+        listTemplates: () => inner.listTemplates(),
+
+        async addTemplate(template) {
+            await inner.addTemplate(template);
+            await added('template', TEMPLATES_SHEET_NAME, template.name, template.name);
+        },
+
+        listTeam: () => inner.listTeam(),
+        listSubTasks: (projectName) => inner.listSubTasks(projectName),
+        listSubTasksForProjects: (projectNames) => inner.listSubTasksForProjects(projectNames),
+        createProject: (projectName) => inner.createProject(projectName),
+        saveReport: (title, rows) => inner.saveReport(title, rows),
+        appendAudit: (entries) => inner.appendAudit(entries),
+        listAudit: () => inner.listAudit(),
+    };
+};
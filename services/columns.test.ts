@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { mapColumns, columnLetter } from './columns';
+
+describe('mapColumns', () => {
+    it('finds columns by header, whatever their order, case or spacing', () => {
+        const { map, missing } = mapColumns('task', ['  due   DATE', 'Job', 'Owner', 'Status', 'ID']);
+        expect(missing).toEqual([]);
+        expect(map).toMatchObject({ dueDate: 0, name: 1, assignee: 2, status: 3, uid: 4 });
+        expect(map.notes).toBeUndefined();
+    });
+
+    it('reports required columns it can\'t find', () => {
+        const { missing } = mapColumns('task', ['Notes']);
+        expect(missing.map(spec => spec.field)).toContain('name');
+    });
+
+    it('doesn\'t map two fields to one column', () => {
+        const { map } = mapColumns('audit', ['Timestamp', 'User', 'Tab', 'ID', 'Record', 'Field', 'Old Value', 'New Value', 'Change ID']);
+        const columns = Object.values(map);
+        expect(new Set(columns).size).toBe(columns.length);
+    });
+});
+
+describe('columnLetter', () => {
+    it('counts A to Z, then AA', () => {
+        expect([0, 25, 26, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+    });
+});
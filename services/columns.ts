@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Maps the fields the app works with onto whichever columns hold them in a tab, going by the
+// tab's header row rather than fixed positions.
+
+export type TableKind = 'task' | 'subTask' | 'team' | 'grant' | 'template' | 'audit';
+
+export interface FieldSpec {
+    field: string;
+    label: string; // Header written when the app has to add the column itself
+    aliases: string[];
+    required?: boolean;
+}
+
+export const TABLE_FIELDS: Record<TableKind, FieldSpec[]> = {
+    task: [
+        { field: 'name', label: 'Name', aliases: ['name', 'job', 'job name', 'project', 'task'], required: true },
+        { field: 'priority', label: 'Priority', aliases: ['priority'] },
+        { field: 'assignee', label: 'Assignee', aliases: ['assignee', 'assigned to', 'owner'] },
+        { field: 'status', label: 'Status', aliases: ['status', 'state'] },
+        { field: 'startDate', label: 'Start Date', aliases: ['start date', 'start', 'starts'] },
+        { field: 'dueDate', label: 'Due Date', aliases: ['due date', 'due', 'deadline'] },
+        { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+        { field: 'recurrence', label: 'Repeat', aliases: ['repeat', 'repeats', 'recurrence', 'recurring'] },
+        { field: 'uid', label: 'ID', aliases: ['id', 'job id'] },
+    ],
+    subTask: [
+        { field: 'name', label: 'Task', aliases: ['task', 'name', 'sub-task', 'subtask', 'task name'], required: true },
+        { field: 'assignee', label: 'Assignee', aliases: ['assignee', 'assigned to', 'owner', 'who'] },
+        { field: 'status', label: 'Status', aliases: ['status', 'state'] },
+        { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+        { field: 'dueDate', label: 'Due Date', aliases: ['due date', 'due', 'deadline', 'date'] },
+        { field: 'recurrence', label: 'Repeat', aliases: ['repeat', 'repeats', 'recurrence', 'recurring'] },
+        { field: 'dependsOn', label: 'Depends On', aliases: ['depends on', 'dependencies', 'after', 'blocked by'] },
+        { field: 'id', label: 'ID', aliases: ['id'] },
+    ],
+    team: [
+        { field: 'name', label: 'Name', aliases: ['name', 'display name', 'member'], required: true },
+        { field: 'email', label: 'Email', aliases: ['email', 'e-mail', 'email address'] },
+        { field: 'aliases', label: 'Aliases', aliases: ['aliases', 'alias', 'also known as', 'aka'] },
+        { field: 'role', label: 'Role', aliases: ['role', 'job title', 'position'] },
+    ],
+    grant: [
+        { field: 'name', label: 'Grant', aliases: ['grant', 'name', 'programme', 'program', 'fund'], required: true },
+        { field: 'funder', label: 'Funder', aliases: ['funder', 'funding body', 'organisation', 'organization'] },
+        { field: 'owner', label: 'Owner', aliases: ['owner', 'assignee', 'lead'] },
+        { field: 'amountRequested', label: 'Amount Requested', aliases: ['amount requested', 'requested', 'ask'] },
+        { field: 'amountAwarded', label: 'Amount Awarded', aliases: ['amount awarded', 'awarded', 'award'] },
+        { field: 'stage', label: 'Stage', aliases: ['stage', 'status'] },
+        { field: 'submissionDeadline', label: 'Submission Deadline', aliases: ['submission deadline', 'deadline', 'due date'] },
+        { field: 'reportingDeadlines', label: 'Reporting Deadlines', aliases: ['reporting deadlines', 'reporting deadline', 'reports due'] },
+        { field: 'contact', label: 'Contact', aliases: ['contact', 'funder contact'] },
+        { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+        { field: 'id', label: 'ID', aliases: ['id', 'grant id'] },
+    ],
+    template: [
+        { field: 'template', label: 'Template', aliases: ['template', 'template name', 'format'], required: true },
+        { field: 'name', label: 'Task', aliases: ['task', 'name', 'sub-task', 'subtask', 'step'], required: true },
+        { field: 'role', label: 'Role', aliases: ['role', 'assignee', 'who'] },
+        { field: 'offsetDays', label: 'Offset (Days)', aliases: ['offset (days)', 'offset', 'days', 'day'] },
+        { field: 'anchor', label: 'Relative To', aliases: ['relative to', 'anchor', 'from'] },
+        { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+    ],
+    audit: [
+        { field: 'timestamp', label: 'Timestamp', aliases: ['timestamp', 'time', 'when'], required: true },
+        { field: 'user', label: 'User', aliases: ['user', 'who', 'email'] },
+        { field: 'sheet', label: 'Tab', aliases: ['tab', 'sheet'] },
+        { field: 'recordId', label: 'Record ID', aliases: ['record id', 'id'] },
+        { field: 'record', label: 'Record', aliases: ['record', 'name'] },
+        { field: 'field', label: 'Field', aliases: ['field'] },
+        { field: 'oldValue', label: 'Old Value', aliases: ['old value', 'old', 'before'] },
+        { field: 'newValue', label: 'New Value', aliases: ['new value', 'new', 'after'] },
+        { field: 'changeId', label: 'Change ID', aliases: ['change id', 'change'] },
+    ],
+};
+
+// Zero-based column index for each field found in the header.
+export type ColumnMap = Record<string, number>;
+
+const STORAGE_KEY = 'columnAliases';
+
+type AliasConfig = Partial<Record<TableKind, Record<string, string[]>>>;
+
+// Extra header names set up by the team, on top of the built-in aliases.
+export const loadColumnAliases = (): AliasConfig => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const saveColumnAlias = (kind: TableKind, field: string, header: string) => {
+    const config = loadColumnAliases();
+    const forKind = config[kind] || {};
+    forKind[field] = [...new Set([...(forKind[field] || []), header.trim()])];
+    config[kind] = forKind;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const normalizeHeader = (value: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const mapColumns = (kind: TableKind, header: string[]) => {
+    const custom = loadColumnAliases()[kind] || {};
+    const headers = header.map(normalizeHeader);
+    const map: ColumnMap = {};
+    const missing: FieldSpec[] = [];
+    TABLE_FIELDS[kind].forEach(spec => {
+        const names = [...(custom[spec.field] || []), ...spec.aliases].map(normalizeHeader);
+        const index = names.map(name => headers.indexOf(name)).find(i => i !== -1);
+        if (index !== undefined && !Object.values(map).includes(index)) {
+            map[spec.field] = index;
+        } else if (spec.required) {
+            missing.push(spec);
+        }
+    });
+    return { map, missing };
+};
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnLetter = (index: number) => {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+};
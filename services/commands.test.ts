@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import type { Task } from '../types';
+import { planCommand } from './commands';
+import { ROSTER as roster, task } from './fixtures';
+
+const job = (id: number, fields: Partial<Task>) => task(id, { assignee: 'Taylor Trash', ...fields });
+
+const tasks = [job(2, { name: 'Hot Ones shoot', status: 'Blocked' }), job(3, { name: 'Logo design' })];
+
+describe('planCommand', () => {
+    it('creates jobs with defaults and cleaned-up fields', () => {
+        const plan = planCommand([{
+            type: 'create', summary: 'Add the sizzle reel',
+            fields: { name: 'Sizzle reel', assignee: 'jess', priority: 'Urgent', dueDate: '2025-11-31', recurrence: 'every week' },
+        }], tasks, roster);
+        expect(plan.warnings).toEqual([]);
+        expect(plan.changes).toEqual([expect.objectContaining({
+            kind: 'create',
+            task: { name: 'Sizzle reel', priority: 'Low Priority', assignee: 'Jess Queen', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: 'Weekly' },
+        })]);
+    });
+
+    it('merges several actions on one job and only changes the assignee when reassigning', () => {
+        const plan = planCommand([
+            { type: 'update', jobNumbers: [2], fields: { dueDate: '2025-11-01' }, summary: 'Move the logo' },
+            { type: 'reassign', jobNumbers: [2], fields: { assignee: 'Jess Queen', name: 'Ignored' }, summary: 'Give it to Jess' },
+        ], tasks, roster);
+        expect(plan.changes).toEqual([expect.objectContaining({
+            kind: 'update', summary: 'Move the logo; Give it to Jess', changes: { assignee: 'Jess Queen', dueDate: '2025-11-01' },
+        })]);
+    });
+
+    it('warns about jobs that don\'t exist, moves the workflow doesn\'t allow and changes that change nothing', () => {
+        const plan = planCommand([
+            { type: 'update', jobNumbers: [9], fields: { status: 'Done' }, summary: 'Finish job 9' },
+            { type: 'update', jobNumbers: [1], fields: { status: 'Done' }, summary: 'Finish the shoot' },
+            { type: 'create', fields: {}, summary: 'Add something' },
+        ], tasks, roster);
+        expect(plan.changes).toEqual([]);
+        expect(plan.warnings).toEqual([
+            'Skipped part of "Finish job 9": job #9 doesn\'t exist.',
+            'Skipped "Add something": the new job has no name.',
+            '"Hot Ones shoot" can\'t move from Blocked to Done.',
+            '"Hot Ones shoot" already matches the request.',
+        ]);
+    });
+
+    it('doesn\'t update a job it also deletes', () => {
+        const plan = planCommand([
+            { type: 'update', jobNumbers: [2], fields: { notes: 'x' }, summary: 'Note the logo' },
+            { type: 'delete', jobNumbers: [2], summary: 'Remove the logo' },
+        ], tasks, roster);
+        expect(plan.changes.map(c => c.kind)).toEqual(['delete']);
+    });
+
+    it('finds jobs by their number in the list, whatever row they\'re on', () => {
+        const plan = planCommand([{ type: 'delete', jobNumbers: [1, 0, 2.5], summary: 'Remove the shoot' }], [job(7, { name: 'Hot Ones shoot' })], roster);
+        expect(plan.changes).toEqual([expect.objectContaining({ kind: 'delete', task: expect.objectContaining({ uid: 'job-7' }) })]);
+        expect(plan.warnings).toHaveLength(2);
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from '@google/genai';
+import type { Task, NewTask, TeamMember } from '../types';
+import { canonicalAssignee } from './roster';
+import { parseRecurrence, formatRecurrence } from './recurrence';
+import { STATUSES, normalizeStatus, canTransition, type Status } from '../utils/status';
+import { isValidIsoDate, parseIsoDate } from '../utils/dates';
+
+// Turns a request typed into the hub input ("mark the Hot Ones shoot done") into a preview of
+// the changes it would make to the Live Jobs list. Gemini picks the actions; everything it
+// returns is checked against the actual jobs before anything is shown. Jobs are numbered for
+// Gemini by their place in the list it's shown, and mapped back to the jobs themselves, so an
+// action never depends on which sheet row a job is on.
+
+export const PRIORITIES = ['High Priority', 'Mid-level Priority', 'Low Priority'];
+
+export type CommandActionType = 'create' | 'update' | 'delete' | 'reassign';
+
+// One action as Gemini returns it.
+export interface CommandAction {
+    type: CommandActionType;
+    jobNumbers?: number[];
+    fields?: Partial<Record<keyof NewTask, string>>;
+    summary: string;
+}
+
+export interface FieldChange {
+    field: keyof NewTask;
+    from: string | null;
+    to: string | null;
+}
+
+export type PlannedChange =
+    | { kind: 'create'; summary: string; task: NewTask; diff: FieldChange[] }
+    | { kind: 'update'; summary: string; task: Task; changes: Partial<NewTask>; diff: FieldChange[] }
+    | { kind: 'delete'; summary: string; task: Task; diff: FieldChange[] };
+
+export interface CommandPlan {
+    changes: PlannedChange[];
+    // Parts of the request that were dropped, e.g. a job that doesn't exist.
+    warnings: string[];
+}
+
+export const FIELD_LABELS: Record<keyof NewTask, string> = {
+    name: 'Name',
+    priority: 'Priority',
+    assignee: 'Assignee',
+    status: 'Status',
+    startDate: 'Start Date',
+    dueDate: 'Due Date',
+    notes: 'Notes',
+    recurrence: 'Repeat',
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as (keyof NewTask)[];
+
+const fieldSchema = {
+    type: Type.OBJECT,
+    description: 'Only the fields the request sets. Leave the others out.',
+    properties: {
+        name: { type: Type.STRING },
+        priority: { type: Type.STRING, enum: PRIORITIES },
+        assignee: { type: Type.STRING, description: 'A team member\'s name.' },
+        status: { type: Type.STRING, enum: [...STATUSES] },
+        startDate: { type: Type.STRING, description: 'YYYY-MM-DD' },
+        dueDate: { type: Type.STRING, description: 'YYYY-MM-DD' },
+        notes: { type: Type.STRING },
+        recurrence: {
+            type: Type.STRING,
+            description: 'How the job repeats: "Weekly", "Fortnightly" or e.g. "Monthly on the 2nd Tuesday" (or "last"), optionally followed by " until YYYY-MM-DD".',
+        },
+    },
+};
+
+export const COMMAND_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        actions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: ['create', 'update', 'delete', 'reassign'] },
+                    jobNumbers: {
+                        type: Type.ARRAY,
+                        items: { type: Type.INTEGER },
+                        description: 'Numbers of the existing jobs the action applies to. Empty for create.',
+                    },
+                    fields: fieldSchema,
+                    summary: { type: Type.STRING, description: 'A short description of the action.' },
+                },
+                required: ['type', 'summary'],
+            },
+        },
+    },
+    required: ['actions'],
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const buildCommandPrompt = (request: string, tasks: Task[], roster: TeamMember[], today: string) => {
+    const jobs = tasks.map((t, i) =>
+        `#${i + 1} | ${t.name} | assignee: ${t.assignee || 'none'} | ${t.priority} | ${t.status} | start: ${t.startDate || 'none'} | due: ${t.dueDate || 'none'}${t.recurrence ? ` | repeats: ${t.recurrence}` : ''}`
+    ).join('\n');
+    const team = roster.length
+        ? `The team members are: ${roster.map(m => [m.name, m.email, ...m.aliases].filter(Boolean).join(' / ')).join('; ')}. Use the first name listed for a member as the assignee.`
+        : '';
+    return `You are a project management assistant for a production company. Turn the request below into a list of actions on the Live Jobs list.
+Use "create" for a new job (name, assignee, due date, priority, notes and how it repeats where given; priority defaults to Low Priority), "update" to change fields of existing jobs, "reassign" to change only who existing jobs are assigned to, and "delete" only when the request explicitly asks to remove jobs.
+Refer to existing jobs only by the numbers listed below, and include every job the request covers. Give dates as YYYY-MM-DD. Today is ${WEEKDAY_NAMES[parseIsoDate(today).getDay()]} ${today}; if a year is not given, assume the current year, or next year if the date has passed.
+${team}
+Existing jobs:
+${jobs || '(none)'}
+
+Request: "${request}"`;
+};
+
+const clean = (field: keyof NewTask, value: string | undefined, roster: TeamMember[]) => {
+    const trimmed = (value ?? '').trim();
+    if (!trimmed) return undefined;
+    switch (field) {
+        case 'priority': return PRIORITIES.includes(trimmed) ? trimmed : undefined;
+        case 'status': return normalizeStatus(trimmed) || undefined;
+        case 'assignee': return canonicalAssignee(roster, trimmed);
+        case 'startDate':
+        case 'dueDate': return isValidIsoDate(trimmed) ? trimmed : undefined;
+        case 'recurrence': return formatRecurrence(parseRecurrence(trimmed)) || undefined;
+        default: return trimmed;
+    }
+};
+
+const diffOf = (before: Partial<NewTask>, after: Partial<NewTask>): FieldChange[] =>
+    FIELDS.filter(field => field in after && (after[field] || null) !== (before[field] || null))
+        .map(field => ({ field, from: before[field] || null, to: after[field] || null }));
+
+/**
+ * Checks Gemini's actions against the current jobs, the same list the prompt was built from,
+ * and turns them into changes to preview.
+ * Several actions on one job are merged so that applying them doesn't overwrite each other,
+ * and a job being deleted isn't also updated.
+ */
+export const planCommand = (actions: CommandAction[], tasks: Task[], roster: TeamMember[]): CommandPlan => {
+    const warnings: string[] = [];
+    const creates: PlannedChange[] = [];
+    const updates = new Map<string, { task: Task; changes: Partial<NewTask>; summaries: string[] }>();
+    const deletes = new Map<string, { task: Task; summary: string }>();
+
+    const fieldsOf = (action: CommandAction) => {
+        const fields: Partial<NewTask> = {};
+        FIELDS.forEach(field => {
+            if (action.type === 'reassign' && field !== 'assignee') return;
+            const value = clean(field, action.fields?.[field], roster);
+            if (value !== undefined) fields[field] = value;
+        });
+        return fields;
+    };
+
+    for (const action of actions || []) {
+        if (action.type === 'create') {
+            const fields = fieldsOf(action);
+            if (!fields.name) {
+                warnings.push(`Skipped "${action.summary}": the new job has no name.`);
+                continue;
+            }
+            const task: NewTask = {
+                name: fields.name,
+                priority: fields.priority || 'Low Priority',
+                assignee: fields.assignee || '',
+                status: fields.status || 'Todo',
+                startDate: fields.startDate || null,
+                dueDate: fields.dueDate || null,
+                notes: fields.notes || null,
+                recurrence: fields.recurrence || null,
+            };
+            creates.push({ kind: 'create', summary: action.summary, task, diff: diffOf({}, task) });
+            continue;
+        }
+
+        for (const number of action.jobNumbers || []) {
+            const task = Number.isInteger(number) ? tasks[number - 1] : undefined;
+            if (!task) {
+                warnings.push(`Skipped part of "${action.summary}": job #${number} doesn't exist.`);
+                continue;
+            }
+            if (action.type === 'delete') {
+                deletes.set(task.uid, { task, summary: action.summary });
+                continue;
+            }
+            const entry = updates.get(task.uid) || { task, changes: {}, summaries: [] };
+            entry.changes = { ...entry.changes, ...fieldsOf(action) };
+            entry.summaries.push(action.summary);
+            updates.set(task.uid, entry);
+        }
+    }
+
+    const planned: PlannedChange[] = [];
+    updates.forEach(({ task, changes, summaries }, uid) => {
+        if (deletes.has(uid)) return;
+        if (changes.status && !canTransition(task.status, changes.status as Status)) {
+            warnings.push(`"${task.name}" can't move from ${task.status} to ${changes.status}.`);
+            delete changes.status;
+        }
+        const diff = diffOf(task, changes);
+        if (!diff.length) {
+            warnings.push(`"${task.name}" already matches the request.`);
+            return;
+        }
+        const changed = Object.fromEntries(diff.map(c => [c.field, c.to])) as Partial<NewTask>;
+        planned.push({ kind: 'update', summary: [...new Set(summaries)].join('; '), task, changes: changed, diff });
+    });
+    deletes.forEach(({ task, summary }) => planned.push({ kind: 'delete', summary, task, diff: [] }));
+
+    return { changes: [...planned, ...creates], warnings };
+};
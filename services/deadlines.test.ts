@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { collectDeadlines, dueNotifications, type NotificationSettings } from './deadlines';
+import { ROSTER, task, subTask } from './fixtures';
+
+const TODAY = '2025-10-24';
+
+const tasks = [
+    task(2, { name: 'Chai x Pasty GRWM', assignee: 'TT', dueDate: '2025-10-27' }),
+    task(3, { name: 'Logo design', assignee: 'Sammy Harkin', dueDate: '2025-10-20' }),
+    task(4, { name: 'Audition tape', assignee: 'taylor@trashtv.productions', status: 'Done', dueDate: TODAY }),
+];
+
+const subTasksByProject = {
+    'Logo design': [
+        subTask('draft', { name: 'Draft logos', assignee: 'Taylor Trash', dueDate: '2025-10-22' }),
+        subTask('final', { name: 'Final files', assignee: 'Taylor Trash', dueDate: '2025-12-01' }),
+    ],
+};
+
+const SETTINGS: NotificationSettings = { enabled: true, leadDays: [0, 3], overdue: true };
+
+describe('collectDeadlines', () => {
+    it('gathers someone\'s open, upcoming work across jobs and sub-tasks, soonest first', () => {
+        const items = collectDeadlines(tasks, subTasksByProject, ROSTER, 'Taylor Trash', TODAY);
+        expect(items.map(item => [item.key, item.state])).toEqual([['subtask-draft', 'overdue'], ['job-job-2', 'week']]);
+    });
+});
+
+describe('dueNotifications', () => {
+    const items = collectDeadlines(tasks, subTasksByProject, ROSTER, 'Taylor Trash', TODAY);
+
+    it('reminds at each lead time and daily about overdue work', () => {
+        expect(dueNotifications(items, SETTINGS, TODAY).map(n => [n.title, n.body])).toEqual([
+            ['Overdue by 2 days', 'Draft logos (Logo design)'],
+            ['Due in 3 days', 'Chai x Pasty GRWM'],
+        ]);
+    });
+
+    it('keys each reminder so it\'s only sent once', () => {
+        const [overdue, upcoming] = dueNotifications(items, SETTINGS, TODAY);
+        expect(overdue.key).toBe(`subtask-draft:overdue:${TODAY}`);
+        expect(upcoming.key).toBe('job-job-2:2025-10-27:3');
+    });
+
+    it('leaves out what the settings turn off', () => {
+        expect(dueNotifications(items, { ...SETTINGS, leadDays: [1], overdue: false }, TODAY)).toEqual([]);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, SubTask, TeamMember } from '../types';
+import { resolveAssignee } from './roster';
+import { dueState, type DueState } from '../utils/deadlines';
+import { daysBetween, addDays } from '../utils/dates';
+
+// Someone's upcoming deadlines across the Live Jobs list and every project tab, for the
+// "My day" summary and the browser notifications.
+
+export interface DeadlineItem {
+    key: string;
+    project: string;
+    name: string;
+    isJob: boolean;
+    dueDate: string;
+    state: DueState;
+}
+
+export const collectDeadlines = (
+    tasks: Task[],
+    subTasksByProject: Record<string, SubTask[]>,
+    roster: TeamMember[],
+    memberName: string,
+    today: string,
+): DeadlineItem[] => {
+    const isMine = (assignee: string) => resolveAssignee(roster, assignee)?.name === memberName;
+    const items = tasks.flatMap(task => [
+        { key: `job-${task.uid}`, project: task.name, name: task.name, isJob: true, assignee: task.assignee, status: task.status, dueDate: task.dueDate },
+        ...(subTasksByProject[task.name] || []).map(st => ({
+            key: `subtask-${st.id}`, project: task.name, name: st.name, isJob: false, assignee: st.assignee, status: st.status, dueDate: st.dueDate,
+        })),
+    ]);
+    return items
+        .filter(item => isMine(item.assignee))
+        .map(({ key, project, name, isJob, status, dueDate }) => ({ key, project, name, isJob, dueDate, state: dueState(dueDate, status, today) }))
+        .filter(item => item.state)
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+export interface NotificationSettings {
+    enabled: boolean;
+    // Days before the deadline to be reminded, 0 being the day itself.
+    leadDays: number[];
+    // Also remind once a day about anything overdue.
+    overdue: boolean;
+}
+
+export const LEAD_TIME_OPTIONS = [
+    { days: 0, label: 'On the day' },
+    { days: 1, label: '1 day before' },
+    { days: 2, label: '2 days before' },
+    { days: 3, label: '3 days before' },
+    { days: 7, label: '1 week before' },
+];
+
+const SETTINGS_KEY = 'notificationSettings';
+const SENT_KEY = 'sentNotifications';
+
+const DEFAULT_SETTINGS: NotificationSettings = { enabled: false, leadDays: [0, 1], overdue: true };
+
+export const loadNotificationSettings = (): NotificationSettings => {
+    try {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveNotificationSettings = (settings: NotificationSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface DueNotification {
+    key: string; // Unique per reminder, so each one is only sent once
+    item: DeadlineItem;
+    title: string;
+    body: string;
+}
+
+/**
+ * The reminders due today under the given settings: one at each lead time before a deadline,
+ * and one a day for anything overdue.
+ */
+export const dueNotifications = (items: DeadlineItem[], settings: NotificationSettings, today: string): DueNotification[] =>
+    items.flatMap(item => {
+        const days = daysBetween(today, item.dueDate);
+        const body = item.isJob ? item.name : `${item.name} (${item.project})`;
+        if (days < 0) {
+            return settings.overdue
+                ? [{ key: `${item.key}:overdue:${today}`, item, title: `Overdue by ${-days} ${days === -1 ? 'day' : 'days'}`, body }]
+                : [];
+        }
+        if (!settings.leadDays.includes(days)) return [];
+        const title = days === 0 ? 'Due today' : days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+        return [{ key: `${item.key}:${item.dueDate}:${days}`, item, title, body }];
+    });
+
+// Which reminders have been sent, kept for a month so none is repeated after a reload.
+export const loadSentNotifications = (today: string): Record<string, string> => {
+    const cutoff = addDays(today, -30);
+    try {
+        const sent = JSON.parse(localStorage.getItem(SENT_KEY) || '{}');
+        return Object.fromEntries(Object.entries(sent).filter(([, date]) => (date as string) >= cutoff)) as Record<string, string>;
+    } catch {
+        return {};
+    }
+};
+
+export const saveSentNotifications = (sent: Record<string, string>) => {
+    localStorage.setItem(SENT_KEY, JSON.stringify(sent));
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { openPrerequisites, latePrerequisites, possiblePrerequisites, cascadeDueDates, criticalPath } from './dependencies';
+import { subTask as baseSubTask } from './fixtures';
+
+const subTask = (id: string, dueDate: string, dependsOn: string[] = [], status = 'Todo') =>
+    baseSubTask(id, { dueDate, dependsOn, status });
+
+// shoot → cut → review, with a standalone thumbnail.
+const project = () => [
+    subTask('shoot', '2025-11-03', [], 'Done'),
+    subTask('cut', '2025-11-07', ['shoot']),
+    subTask('review', '2025-11-10', ['cut', 'gone']),
+    subTask('thumbnail', '2025-11-08'),
+];
+
+describe('prerequisites', () => {
+    it('ignores done prerequisites and links to removed sub-tasks', () => {
+        const [, cut, review] = project();
+        expect(openPrerequisites(cut, project())).toEqual([]);
+        expect(openPrerequisites(review, project()).map(st => st.id)).toEqual(['cut']);
+    });
+
+    it('flags prerequisites due after the sub-task', () => {
+        const subTasks = [subTask('a', '2025-11-09'), subTask('b', '2025-11-08', ['a'])];
+        expect(latePrerequisites(subTasks[1], subTasks).map(st => st.id)).toEqual(['a']);
+    });
+
+    it('compares dates written the way the sheet shows them', () => {
+        const subTasks = [subTask('a', '09/11/2025'), subTask('b', '2025-11-10', ['a']), subTask('c', '8/11/2025', ['a'])];
+        expect(latePrerequisites(subTasks[1], subTasks)).toEqual([]);
+        expect(latePrerequisites(subTasks[2], subTasks).map(st => st.id)).toEqual(['a']);
+    });
+
+    it('doesn\'t offer links that would make a loop', () => {
+        const [shoot] = project();
+        expect(possiblePrerequisites(shoot, project()).map(st => st.id)).toEqual(['thumbnail']);
+    });
+});
+
+describe('cascadeDueDates', () => {
+    it('moves dependents back by the same number of days, down the chain', () => {
+        const [shoot] = project();
+        const moved = cascadeDueDates(shoot, '2025-11-08', project());
+        expect(moved.map(m => [m.subTask.id, m.dueDate])).toEqual([['cut', '2025-11-12'], ['review', '2025-11-15']]);
+    });
+
+    it('moves nothing when a date is brought forward', () => {
+        const [shoot] = project();
+        expect(cascadeDueDates(shoot, '2025-11-01', project())).toEqual([]);
+    });
+
+    it('moves dependents whose dates are written the way the sheet shows them', () => {
+        const subTasks = [subTask('shoot', '03/11/2025'), subTask('cut', '07/11/2025', ['shoot'])];
+        expect(cascadeDueDates(subTasks[0], '2025-11-08', subTasks).map(m => m.dueDate)).toEqual(['2025-11-12']);
+    });
+});
+
+describe('criticalPath', () => {
+    it('is the chain that finishes last', () => {
+        expect(criticalPath(project()).map(st => st.id)).toEqual(['shoot', 'cut', 'review']);
+    });
+
+    it('ignores a standalone sub-task due later than every chain', () => {
+        const subTasks = [...project(), subTask('upload', '2025-11-20')];
+        expect(criticalPath(subTasks).map(st => st.id)).toEqual(['shoot', 'cut', 'review']);
+    });
+
+    it('orders chains by date, not by how the dates are written', () => {
+        const subTasks = [subTask('a', '01/12/2025'), subTask('b', '02/12/2025', ['a']), subTask('c', '2025-11-30'), subTask('d', '2025-12-01', ['c'])];
+        expect(criticalPath(subTasks).map(st => st.id)).toEqual(['a', 'b']);
+    });
+
+    it('is empty when nothing depends on anything', () => {
+        expect(criticalPath([subTask('a', '2025-11-01'), subTask('b', '2025-11-02')])).toEqual([]);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SubTask } from '../types';
+import { isDone } from '../utils/status';
+import { isValidIsoDate, addDays, daysBetween, parseSheetDate } from '../utils/dates';
+
+// "Depends on" links between the sub-tasks of one project. Each sub-task lists the IDs of the
+// ones that have to be finished first; links to sub-tasks no longer in the tab are ignored.
+
+const byId = (subTasks: SubTask[]) => new Map(subTasks.map(st => [st.id, st]));
+
+// Due dates are compared as YYYY-MM-DD, whichever way they were written; '' when there isn't one.
+const dueOf = (subTask: SubTask) => parseSheetDate(subTask.dueDate) || '';
+
+export const prerequisitesOf = (subTask: SubTask, subTasks: SubTask[]) => {
+    const index = byId(subTasks);
+    return subTask.dependsOn.map(id => index.get(id)).filter(Boolean);
+};
+
+// The prerequisites still open, which keep the sub-task blocked.
+export const openPrerequisites = (subTask: SubTask, subTasks: SubTask[]) =>
+    prerequisitesOf(subTask, subTasks).filter(st => !isDone(st.status));
+
+// Prerequisites due after the sub-task itself, so its due date can't be met as planned.
+export const latePrerequisites = (subTask: SubTask, subTasks: SubTask[]) =>
+    dueOf(subTask)
+        ? prerequisitesOf(subTask, subTasks).filter(st => dueOf(st) > dueOf(subTask))
+        : [];
+
+// Every sub-task that waits on this one, directly or through others.
+const dependentsOf = (id: string, subTasks: SubTask[]) => {
+    const found = new Set<string>();
+    const visit = (current: string) => subTasks.forEach(st => {
+        if (st.dependsOn.includes(current) && !found.has(st.id)) {
+            found.add(st.id);
+            visit(st.id);
+        }
+    });
+    visit(id);
+    return found;
+};
+
+// The sub-tasks this one could depend on: anything but itself and those already waiting on
+// it, which would make a loop.
+export const possiblePrerequisites = (subTask: SubTask, subTasks: SubTask[]) => {
+    const dependents = dependentsOf(subTask.id, subTasks);
+    return subTasks.filter(st => st.id !== subTask.id && !dependents.has(st.id) && !subTask.dependsOn.includes(st.id));
+};
+
+/**
+ * The dependents that moving a sub-task's due date to `dueDate` would leave due before one of
+ * their prerequisites, each with the date that keeps its old gap, i.e. moved back by the same
+ * number of days. Moves carry on down the chain. Bringing a date forward moves nothing.
+ */
+export const cascadeDueDates = (subTask: SubTask, dueDate: string, subTasks: SubTask[]) => {
+    if (!dueOf(subTask) || !isValidIsoDate(dueDate)) return [];
+    const days = daysBetween(dueOf(subTask), dueDate);
+    if (days <= 0) return [];
+    const moved = new Map<string, string>([[subTask.id, dueDate]]);
+    const queue = [subTask.id];
+    while (queue.length) {
+        const current = queue.shift();
+        subTasks.forEach(st => {
+            if (!st.dependsOn.includes(current) || moved.has(st.id) || !dueOf(st)) return;
+            if (dueOf(st) < moved.get(current)) {
+                moved.set(st.id, addDays(dueOf(st), days));
+                queue.push(st.id);
+            }
+        });
+    }
+    moved.delete(subTask.id);
+    return subTasks.filter(st => moved.has(st.id)).map(st => ({ subTask: st, dueDate: moved.get(st.id) }));
+};
+
+/**
+ * The dependency chain that finishes last: of every chain of linked sub-tasks, the one whose
+ * final sub-task is due latest (the longest, on a tie). Each chain runs back from its final
+ * sub-task through whichever prerequisite is due latest. Empty when nothing depends on anything.
+ */
+export const criticalPath = (subTasks: SubTask[]): SubTask[] => {
+    const chainTo = (end: SubTask) => {
+        const path = [end];
+        for (let current = end; ;) {
+            const prerequisites = prerequisitesOf(current, subTasks).filter(st => !path.includes(st));
+            if (!prerequisites.length) break;
+            current = prerequisites.reduce((a, b) => (dueOf(b) > dueOf(a) ? b : a));
+            path.unshift(current);
+        }
+        return path;
+    };
+    const endOf = (path: SubTask[]) => dueOf(path[path.length - 1]);
+    return subTasks
+        .map(chainTo)
+        .filter(path => path.length > 1)
+        .reduce((best, path) => (!best.length || endOf(path) > endOf(best) || (endOf(path) === endOf(best) && path.length > best.length) ? path : best), []);
+};
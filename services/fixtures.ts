@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask, TeamMember, Grant } from '../types';
+
+// Records for the unit tests. Each starts from plain defaults, overridden field by field.
+
+export const ROSTER: TeamMember[] = [
+    { name: 'Taylor Trash', email: 'taylor@trashtv.productions', aliases: ['TT'], role: 'Producer' },
+    { name: 'Jess Queen', email: 'jess@trashtv.productions', aliases: [], role: 'Editor' },
+    { name: 'Sammy Harkin', email: 'sammy@trashtv.productions', aliases: ['SH'], role: 'Producer' },
+];
+
+export const newTask = (name: string, fields: Partial<NewTask> = {}): NewTask => ({
+    name, priority: 'Low Priority', assignee: '', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null, ...fields,
+});
+
+export const task = (id: number, fields: Partial<Task> = {}): Task => ({
+    id, uid: `job-${id}`, ...newTask(`Job ${id}`), ...fields,
+});
+
+export const newSubTask = (name: string, fields: Partial<NewSubTask> = {}): NewSubTask => ({
+    name, assignee: '', status: 'Todo', notes: '', dueDate: '', recurrence: '', dependsOn: [], ...fields,
+});
+
+export const subTask = (id: string, fields: Partial<SubTask> = {}): SubTask => ({
+    id, revision: '', ...newSubTask(id), ...fields,
+});
+
+export const grant = (id: string, fields: Partial<Grant> = {}): Grant => ({
+    id, name: id, funder: '', owner: '', amountRequested: null, amountAwarded: null, stage: 'Researching',
+    submissionDeadline: null, reportingDeadlines: [], contact: '', notes: null, ...fields,
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import type { Grant } from '../types';
+import { normalizeStage, parseAmount, parseDateList, grantReminders } from './grants';
+import { grant } from './fixtures';
+
+const TODAY = '2025-10-22';
+
+describe('reading grant cells', () => {
+    it('reads stages whatever their case, starting unknown ones at Researching', () => {
+        expect(normalizeStage(' submitted ')).toBe('Submitted');
+        expect(normalizeStage('Pending')).toBe('Researching');
+        expect(normalizeStage(null)).toBe('Researching');
+    });
+
+    it('reads amounts written with currency and separators', () => {
+        expect(parseAmount('£12,500')).toBe(12500);
+        expect(parseAmount('2500.00')).toBe(2500);
+        expect(parseAmount('')).toBeNull();
+        expect(parseAmount('TBC')).toBeNull();
+    });
+
+    it('keeps only real dates from a list, in order', () => {
+        expect(parseDateList('2026-03-31, soon, 2025-12-31, 2025-02-30')).toEqual(['2025-12-31', '2026-03-31']);
+    });
+});
+
+describe('grantReminders', () => {
+    const reminders = (fields: Partial<Grant>) =>
+        grantReminders([grant('g1', { name: 'Awards for All', funder: 'National Lottery', owner: 'Taylor Trash', ...fields })], TODAY)
+            .map(r => [r.name, r.dueDate]);
+
+    it('reminds about applications due within two weeks', () => {
+        expect(reminders({ stage: 'Drafting', submissionDeadline: '2025-11-03' })).toEqual([['Submit Awards for All application', '2025-11-03']]);
+        expect(reminders({ stage: 'Drafting', submissionDeadline: '2025-11-14' })).toEqual([]);
+        expect(reminders({ stage: 'Researching' })).toEqual([]);
+    });
+
+    it('chases a decision four weeks after submitting, or now when there\'s no date', () => {
+        expect(reminders({ stage: 'Submitted', submissionDeadline: '2025-10-03' })).toEqual([['Follow up with National Lottery on Awards for All', '2025-10-31']]);
+        expect(reminders({ stage: 'Submitted' })).toEqual([['Follow up with National Lottery on Awards for All', TODAY]]);
+    });
+
+    it('reminds about reports from two weeks ahead until a week after', () => {
+        expect(reminders({ stage: 'Decision', reportingDeadlines: ['2025-10-14', '2025-10-16', '2025-11-01', '2025-12-31'] })).toEqual([
+            ['Send Awards for All report to National Lottery', '2025-10-16'],
+            ['Send Awards for All report to National Lottery', '2025-11-01'],
+        ]);
+    });
+
+    it('keys reminders by the grant\'s ID and assigns them to its owner', () => {
+        const [reminder] = grantReminders([grant('g1', { stage: 'Submitted', owner: 'Jess Queen' })], TODAY);
+        expect(reminder).toMatchObject({ grantId: 'g1', assignee: 'Jess Queen', key: `g1-follow-up-${TODAY}` });
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Grant } from '../types';
+import { isValidIsoDate, addDays } from '../utils/dates';
+
+// The grant pipeline, and the follow-up reminders it puts on the Live Jobs list.
+
+export const GRANT_STAGES = ['Researching', 'Drafting', 'Submitted', 'Decision'] as const;
+
+export type GrantStage = typeof GRANT_STAGES[number];
+
+// How long after submitting to chase the funder for a decision.
+const FOLLOW_UP_DAYS = 28;
+// Reminders show up this many days before they are due.
+const REMINDER_LEAD_DAYS = 14;
+
+export const normalizeStage = (value: string | null | undefined): GrantStage =>
+    GRANT_STAGES.find(stage => stage.toLowerCase() === (value || '').trim().toLowerCase()) || 'Researching';
+
+// Sheets may hold amounts as "£12,500" or "12500.00".
+export const parseAmount = (value: string | null | undefined): number | null => {
+    const cleaned = (value || '').replace(/[^0-9.-]/g, '');
+    return cleaned && !isNaN(Number(cleaned)) ? Number(cleaned) : null;
+};
+
+const currency = new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 });
+
+export const formatAmount = (value: number | null) => (value === null ? '—' : currency.format(value));
+
+export const parseDateList = (value: string | null | undefined) =>
+    (value || '').split(',').map(date => date.trim()).filter(isValidIsoDate).sort();
+
+export interface GrantReminder {
+    key: string;
+    grantId: string;
+    name: string;
+    assignee: string;
+    dueDate: string;
+}
+
+/**
+ * The follow-ups each grant currently needs: getting the application in before its deadline,
+ * chasing a decision once it's submitted, and sending reports after an award. Reminders show
+ * from two weeks ahead and stay until the grant moves on (or, for reports, a week after).
+ */
+export const grantReminders = (grants: Grant[], today: string): GrantReminder[] => {
+    const showFrom = addDays(today, REMINDER_LEAD_DAYS);
+    return grants.flatMap(grant => {
+        const stage = normalizeStage(grant.stage);
+        const reminder = (kind: string, name: string, dueDate: string) => ({
+            key: `${grant.id}-${kind}-${dueDate}`,
+            grantId: grant.id,
+            name,
+            assignee: grant.owner,
+            dueDate,
+        });
+        const funder = grant.funder || grant.name;
+
+        if ((stage === 'Researching' || stage === 'Drafting') && isValidIsoDate(grant.submissionDeadline)) {
+            return grant.submissionDeadline <= showFrom
+                ? [reminder('submit', `Submit ${grant.name} application`, grant.submissionDeadline)]
+                : [];
+        }
+        if (stage === 'Submitted') {
+            // Without a submission date there's no telling how long it's been, so chase now.
+            const followUp = isValidIsoDate(grant.submissionDeadline) ? addDays(grant.submissionDeadline, FOLLOW_UP_DAYS) : today;
+            return followUp <= showFrom ? [reminder('follow-up', `Follow up with ${funder} on ${grant.name}`, followUp)] : [];
+        }
+        if (stage === 'Decision') {
+            return grant.reportingDeadlines
+                .filter(date => date >= addDays(today, -7) && date <= showFrom)
+                .map(date => reminder('report', `Send ${grant.name} report to ${funder}`, date));
+        }
+        return [];
+    });
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { tasksToIcs, subTasksToIcs, parseIcs, subTaskIdFromUid, jobUid } from './ics';
+import { task as baseTask, subTask as baseSubTask } from './fixtures';
+import type { Task, SubTask } from '../types';
+
+const subTask = (fields: Partial<SubTask>) => baseSubTask('9b2f0c1e-2d4a-4c8e-9f00-1234567890ab', {
+    name: 'Rough cut', assignee: 'Jess Queen', dueDate: '2025-11-07', ...fields,
+});
+
+const task = (fields: Partial<Task>) => baseTask(2, {
+    uid: 'a1b2c3', name: 'Chai x Pasty GRWM', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress',
+    startDate: '2025-10-20', dueDate: '2025-10-24', ...fields,
+});
+
+describe('ics', () => {
+    it('round-trips sub-tasks, including text that needs escaping and folding', () => {
+        const subTasks = [
+            subTask({ name: 'Shoot; interviews, day 1\\2' }),
+            subTask({ id: 'st-2', name: 'A '.repeat(60).trim(), notes: 'Line one\nLine two', dueDate: '2025-11-10' }),
+        ];
+        const events = parseIcs(subTasksToIcs('Pasty Dragumentary', subTasks));
+        expect(events.map(e => ({ id: subTaskIdFromUid(e.uid), summary: e.summary, start: e.start, end: e.end }))).toEqual([
+            { id: subTasks[0].id, summary: 'Shoot; interviews, day 1\\2', start: '2025-11-07', end: null },
+            { id: 'st-2', summary: subTasks[1].name, start: '2025-11-10', end: null },
+        ]);
+        expect(events[1].description).toContain('Notes: Line one\nLine two');
+    });
+
+    it('exports jobs across their start and due dates, by their ID', () => {
+        const [event] = parseIcs(tasksToIcs([task({}), task({ uid: 'undated', startDate: null, dueDate: null })]));
+        expect(event).toMatchObject({ uid: jobUid(task({})), start: '2025-10-20', end: '2025-10-24' });
+        expect(jobUid(task({ name: 'Renamed' }))).toBe(jobUid(task({})));
+    });
+
+    it('reads date-times, converting UTC ones', () => {
+        const [event] = parseIcs([
+            'BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'UID:abc', 'DTSTART:20251024T233000Z', 'SUMMARY:Premiere', 'END:VEVENT', 'END:VCALENDAR',
+        ].join('\r\n'));
+        expect(event.start).toMatch(/^2025-10-2[45]$/);
+        expect(event.summary).toBe('Premiere');
+    });
+
+    it('hashes other calendars\' UIDs into IDs that are safe in a Depends On list', () => {
+        const id = subTaskIdFromUid('040000008200E000, 74C5B7101A82E008@outlook.com');
+        expect(id).toMatch(/^ics-[0-9a-f]{16}$/);
+        expect(subTaskIdFromUid('040000008200E000, 74C5B7101A82E008@outlook.com')).toBe(id);
+        expect(subTaskIdFromUid('someone-else@outlook.com')).not.toBe(id);
+        expect(subTaskIdFromUid('1, 2@trashtv.productions')).toMatch(/^ics-/);
+    });
+
+    it('gives each moved occurrence of a repeating event its own ID', () => {
+        const event = (lines: string[]) => ['BEGIN:VEVENT', 'UID:standup@outlook.com', 'DTSTART;VALUE=DATE:20251027', ...lines, 'END:VEVENT'];
+        const events = parseIcs(['BEGIN:VCALENDAR',
+            ...event(['RRULE:FREQ=WEEKLY', 'SUMMARY:Stand-up']),
+            ...event(['RECURRENCE-ID;VALUE=DATE:20251103', 'SUMMARY:Stand-up (moved)']),
+            'END:VCALENDAR'].join('\r\n'));
+        expect(events.map(e => e.recurrenceId)).toEqual([undefined, '20251103']);
+        const ids = events.map(e => subTaskIdFromUid(e.uid, e.recurrenceId));
+        expect(new Set(ids).size).toBe(2);
+        expect(ids[0]).toBe(subTaskIdFromUid('standup@outlook.com'));
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, SubTask } from '../types';
+import { addDays, isValidIsoDate, toIsoDate } from '../utils/dates';
+
+// iCalendar (RFC 5545) export of jobs and sub-tasks, and import of events as sub-tasks.
+
+const UID_DOMAIN = 'trashtv.productions';
+
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    description: string;
+    start: string; // YYYY-MM-DD
+    end: string | null; // YYYY-MM-DD, inclusive
+    // Set on an occurrence of a repeating event that was moved or changed, which shares the
+    // repeating event's UID.
+    recurrenceId?: string;
+}
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+    value.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space.
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const parts = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length ? 74 : 75; // continuation lines lose one octet to the space
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toIcsDate = (value: string) => value.replace(/-/g, '');
+
+const timestamp = () => new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Based on the job's ID column, so a calendar keeps the same event when the job is renamed.
+export const jobUid = (task: Task) => `job-${task.uid}@${UID_DOMAIN}`;
+
+export const subTaskUid = (subTask: SubTask) => `${subTask.id}@${UID_DOMAIN}`;
+
+// A 64-bit FNV-1a hash of the text, as 16 hex digits.
+const hash = (value: string) => {
+    let h = 0xcbf29ce484222325n;
+    for (const byte of new TextEncoder().encode(value)) {
+        h = BigInt.asUintN(64, (h ^ BigInt(byte)) * 0x100000001b3n);
+    }
+    return h.toString(16).padStart(16, '0');
+};
+
+/**
+ * The sub-task ID an imported UID refers to. Our own UIDs map back to the ID they were made
+ * from. Anyone else's UID can hold anything, including the commas that separate IDs in a
+ * Depends On cell, so it becomes `ics-` and a hash of it: the same UID always gives the same
+ * ID, and importing it again finds the same row. An occurrence that overrides a repeating
+ * event is hashed along with its RECURRENCE-ID, so it gets its own ID.
+ */
+export const subTaskIdFromUid = (uid: string, recurrenceId?: string) => {
+    const own = uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -(UID_DOMAIN.length + 1)) : '';
+    if (recurrenceId) return `ics-${hash(`${uid}\n${recurrenceId}`)}`;
+    return /^[\w-]+$/.test(own) ? own : `ics-${hash(uid)}`;
+};
+
+const buildCalendar = (name: string, events: IcsEvent[]) => {
+    const stamp = timestamp();
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//TrashTV Productions//Production Hub//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap(event => [
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(event.start)}`,
+            // All-day events end on the day after their last day.
+            `DTEND;VALUE=DATE:${toIcsDate(addDays(event.end || event.start, 1))}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            'END:VEVENT',
+        ]),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const describe = (fields: Record<string, string | null>) =>
+    Object.entries(fields).filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`).join('\n');
+
+export const tasksToIcs = (tasks: Task[]) => buildCalendar('TrashTV Live Jobs', tasks
+    .map(task => {
+        const start = [task.startDate, task.dueDate].find(d => d && isValidIsoDate(d));
+        const end = [task.dueDate, task.startDate].find(d => d && isValidIsoDate(d));
+        return start ? {
+            uid: jobUid(task),
+            summary: task.name,
+            description: describe({ Assignee: task.assignee, Priority: task.priority, Status: task.status, Notes: task.notes }),
+            start,
+            end: end < start ? start : end,
+        } : null;
+    })
+    .filter(Boolean));
+
+export const subTasksToIcs = (projectName: string, subTasks: SubTask[]) => buildCalendar(projectName, subTasks
+    .filter(st => isValidIsoDate(st.dueDate))
+    .map(st => ({
+        uid: subTaskUid(st),
+        summary: st.name,
+        description: describe({ Project: projectName, Assignee: st.assignee, Status: st.status, Notes: st.notes }),
+        start: st.dueDate,
+        end: null,
+    })));
+
+// Accepts DATE (20251024) and DATE-TIME (20251024T190000, optionally UTC with a trailing Z) values.
+const parseIcsDate = (value: string, isUtc: boolean) => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/.exec(value);
+    if (!match) return null;
+    const [, y, m, d, hh, mm, ss] = match;
+    if (hh && isUtc) {
+        return toIsoDate(new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)));
+    }
+    return `${y}-${m}-${d}`;
+};
+
+export const parseIcs = (text: string): IcsEvent[] => {
+    // Undo line folding before reading properties.
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    let current: Record<string, { params: string; value: string }> | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+            continue;
+        }
+        if (line === 'END:VEVENT' && current) {
+            const dtStart = current.DTSTART;
+            const start = dtStart && parseIcsDate(dtStart.value, dtStart.value.endsWith('Z'));
+            if (start) {
+                const dtEnd = current.DTEND;
+                let end = dtEnd && parseIcsDate(dtEnd.value, dtEnd.value.endsWith('Z'));
+                // DATE end values are exclusive.
+                if (end && dtEnd.params.includes('VALUE=DATE') && !dtEnd.value.includes('T')) {
+                    end = addDays(end, -1);
+                }
+                events.push({
+                    uid: current.UID?.value || `${start}-${current.SUMMARY?.value || 'event'}`,
+                    summary: unescapeText(current.SUMMARY?.value || 'Untitled event'),
+                    description: unescapeText([current.LOCATION?.value, current.DESCRIPTION?.value].filter(Boolean).join('\n')),
+                    start,
+                    end: end && end > start ? end : null,
+                    ...(current['RECURRENCE-ID'] ? { recurrenceId: current['RECURRENCE-ID'].value } : {}),
+                });
+            }
+            current = null;
+            continue;
+        }
+        if (!current) continue;
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+        const [name, ...params] = line.slice(0, separator).split(';');
+        current[name.toUpperCase()] = { params: params.join(';').toUpperCase(), value: line.slice(separator + 1) };
+    }
+    return events;
+};
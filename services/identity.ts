@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Who is signed in, so the audit log can say who made each change.
+
+// Lets the access token read the signed-in account's email address.
+export const USERINFO_SCOPE = 'https://www.googleapis.com/auth/userinfo.email';
+
+const USERINFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+
+// Recorded against edits made in the local demo workspace, where nobody signs in.
+export const LOCAL_USER = 'Local demo';
+
+export const fetchUserEmail = async (accessToken: string): Promise<string> => {
+    const response = await fetch(USERINFO_URL, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+        throw new Error(`Could not look up the signed-in user (${response.status})`);
+    }
+    return (await response.json()).email || '';
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import type { Task } from '../types';
+import { DEFAULT_FILTERS, filterJobs, sortJobs, filtersToParams, filtersFromParams, hasActiveFilters } from './jobFilters';
+import { ROSTER as roster, task as job } from './fixtures';
+
+const jobs = [
+    job(2, { name: 'Hot Ones shoot', assignee: 'jess@trashtv.productions', priority: 'High Priority', dueDate: '2025-10-27' }),
+    job(3, { name: 'Logo design', assignee: 'SH', status: 'In Progress', dueDate: '2025-10-20', notes: 'Needs edit notes' }),
+    job(4, { name: 'Grant follow up', assignee: 'Sammy Harkin', status: 'Done', dueDate: '2025-10-01' }),
+    job(5, { name: 'Pitch reel', priority: 'Mid-level Priority' }),
+];
+
+const ids = (list: Task[]) => list.map(t => t.id);
+const TODAY = '2025-10-22';
+
+describe('filterJobs', () => {
+    it('matches every word of the search against the name and notes', () => {
+        expect(ids(filterJobs(jobs, { ...DEFAULT_FILTERS, query: 'edit NOTES' }, roster, TODAY))).toEqual([3]);
+    });
+
+    it('matches the assignee however it was written', () => {
+        expect(ids(filterJobs(jobs, { ...DEFAULT_FILTERS, assignee: 'Sammy Harkin' }, roster, TODAY))).toEqual([3, 4]);
+    });
+
+    it('treats choices within a filter as alternatives', () => {
+        const filters = { ...DEFAULT_FILTERS, priorities: ['High Priority', 'Mid-level Priority'] };
+        expect(ids(filterJobs(jobs, filters, roster, TODAY))).toEqual([2, 5]);
+    });
+
+    it('lets overdue and undated widen each other', () => {
+        expect(ids(filterJobs(jobs, { ...DEFAULT_FILTERS, overdue: true }, roster, TODAY))).toEqual([3]);
+        expect(ids(filterJobs(jobs, { ...DEFAULT_FILTERS, overdue: true, noDueDate: true }, roster, TODAY))).toEqual([3, 5]);
+    });
+
+    it('keeps only dated jobs within a due date range', () => {
+        expect(ids(filterJobs(jobs, { ...DEFAULT_FILTERS, dueFrom: '2025-10-15', dueTo: '2025-10-31' }, roster, TODAY))).toEqual([2, 3]);
+    });
+});
+
+describe('sortJobs', () => {
+    it('sorts by due date with undated jobs last', () => {
+        expect(ids(sortJobs(jobs, 'dueDate'))).toEqual([4, 3, 2, 5]);
+    });
+
+    it('sorts by priority, then due date', () => {
+        expect(ids(sortJobs(jobs, 'priority'))).toEqual([2, 5, 4, 3]);
+    });
+});
+
+describe('filters in the URL', () => {
+    it('round-trips through query parameters', () => {
+        const filters = {
+            ...DEFAULT_FILTERS, query: 'edit', assignee: 'Jess Queen', priorities: ['High Priority'],
+            statuses: ['Blocked' as const], dueFrom: '2025-10-01', overdue: true, sort: 'priority' as const,
+        };
+        const params = filtersToParams(filters);
+        expect(params.toString()).toBe('q=edit&assignee=Jess+Queen&priority=High+Priority&status=Blocked&from=2025-10-01&overdue=1&sort=priority');
+        expect(filtersFromParams(params)).toEqual(filters);
+    });
+
+    it('leaves defaults out and ignores invalid values', () => {
+        expect(filtersToParams(DEFAULT_FILTERS).toString()).toBe('');
+        const filters = filtersFromParams(new URLSearchParams('priority=Urgent&status=nope&from=2025-13-01&sort=size'));
+        expect(filters).toEqual(DEFAULT_FILTERS);
+        expect(hasActiveFilters(filters)).toBe(false);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, TeamMember } from '../types';
+import { PRIORITIES } from './commands';
+import { resolveAssignee } from './roster';
+import { STATUSES, normalizeStatus, isDone, type Status } from '../utils/status';
+import { isValidIsoDate } from '../utils/dates';
+
+// Search, filters and sort order for the Live Jobs list, and how they're written into the URL
+// so a view survives a reload and can be shared as a link.
+
+export const SORT_OPTIONS = {
+    dueDate: 'Due date',
+    priority: 'Priority',
+    startDate: 'Start date',
+    status: 'Status',
+} as const;
+
+export type SortKey = keyof typeof SORT_OPTIONS;
+
+export interface JobFilters {
+    query: string; // Free text, matched against the name and notes
+    assignee: string; // A roster member's name, or 'all'
+    priorities: string[];
+    statuses: Status[];
+    dueFrom: string;
+    dueTo: string;
+    overdue: boolean;
+    noDueDate: boolean;
+    sort: SortKey;
+}
+
+export const DEFAULT_FILTERS: JobFilters = {
+    query: '',
+    assignee: 'all',
+    priorities: [],
+    statuses: [],
+    dueFrom: '',
+    dueTo: '',
+    overdue: false,
+    noDueDate: false,
+    sort: 'dueDate',
+};
+
+// Anything that can be filtered like a job; grant reminders are too.
+type Filterable = Pick<Task, 'name' | 'notes' | 'assignee' | 'priority' | 'status' | 'startDate' | 'dueDate'>;
+
+const validDate = (value: string | null) => (isValidIsoDate(value) ? value : null);
+
+/**
+ * Keeps the jobs matching every filter that is set. Within a filter the choices are
+ * alternatives (High or Mid priority), and "overdue" and "no due date" likewise widen
+ * each other rather than cancelling out.
+ */
+export const filterJobs = <T extends Filterable>(jobs: T[], filters: JobFilters, roster: TeamMember[], today: string): T[] => {
+    const words = filters.query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return jobs.filter(job => {
+        const due = validDate(job.dueDate);
+        const text = `${job.name} ${job.notes || ''}`.toLowerCase();
+        if (!words.every(word => text.includes(word))) return false;
+        if (filters.assignee !== 'all' && resolveAssignee(roster, job.assignee)?.name !== filters.assignee) return false;
+        if (filters.priorities.length && !filters.priorities.includes(job.priority)) return false;
+        if (filters.statuses.length && !filters.statuses.includes(normalizeStatus(job.status))) return false;
+        if (filters.dueFrom && !(due && due >= filters.dueFrom)) return false;
+        if (filters.dueTo && !(due && due <= filters.dueTo)) return false;
+        if (filters.overdue || filters.noDueDate) {
+            const isOverdue = Boolean(due) && due < today && !isDone(job.status);
+            if (!((filters.overdue && isOverdue) || (filters.noDueDate && !due))) return false;
+        }
+        return true;
+    });
+};
+
+// Earliest first, with anything undated at the end.
+const compareDates = (a: string | null, b: string | null) => {
+    const dateA = validDate(a), dateB = validDate(b);
+    if (dateA === dateB) return 0;
+    if (!dateA) return 1;
+    if (!dateB) return -1;
+    return dateA < dateB ? -1 : 1;
+};
+
+// Position in a list, with anything unrecognised after everything that is.
+const rank = (list: readonly string[], value: string) => {
+    const index = list.indexOf(value);
+    return index === -1 ? list.length : index;
+};
+
+const COMPARATORS: Record<SortKey, (a: Filterable, b: Filterable) => number> = {
+    dueDate: () => 0,
+    priority: (a, b) => rank(PRIORITIES, a.priority) - rank(PRIORITIES, b.priority),
+    startDate: (a, b) => compareDates(a.startDate, b.startDate),
+    status: (a, b) => rank(STATUSES, normalizeStatus(a.status)) - rank(STATUSES, normalizeStatus(b.status)),
+};
+
+// Sorts by the chosen key, then by due date.
+export const sortJobs = <T extends Filterable>(jobs: T[], sort: SortKey): T[] =>
+    [...jobs].sort((a, b) => COMPARATORS[sort](a, b) || compareDates(a.dueDate, b.dueDate));
+
+export const hasActiveFilters = (filters: JobFilters) =>
+    (Object.keys(DEFAULT_FILTERS) as (keyof JobFilters)[])
+        .some(key => key !== 'sort' && String(filters[key]) !== String(DEFAULT_FILTERS[key]));
+
+/**
+ * Writes the filters that differ from the defaults as query parameters, e.g.
+ * `?q=edit&priority=High+Priority&status=Blocked&overdue=1`.
+ */
+export const filtersToParams = (filters: JobFilters) => {
+    const params = new URLSearchParams();
+    if (filters.query.trim()) params.set('q', filters.query.trim());
+    if (filters.assignee !== 'all') params.set('assignee', filters.assignee);
+    filters.priorities.forEach(priority => params.append('priority', priority));
+    filters.statuses.forEach(status => params.append('status', status));
+    if (filters.dueFrom) params.set('from', filters.dueFrom);
+    if (filters.dueTo) params.set('to', filters.dueTo);
+    if (filters.overdue) params.set('overdue', '1');
+    if (filters.noDueDate) params.set('undated', '1');
+    if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+    return params;
+};
+
+// Reads filters back from a URL, ignoring anything that isn't a valid choice.
+export const filtersFromParams = (params: URLSearchParams): JobFilters => {
+    const sort = params.get('sort');
+    return {
+        query: params.get('q') || '',
+        assignee: params.get('assignee') || 'all',
+        priorities: params.getAll('priority').filter(priority => PRIORITIES.includes(priority)),
+        statuses: params.getAll('status').map(normalizeStatus).filter(Boolean),
+        dueFrom: validDate(params.get('from')) || '',
+        dueTo: validDate(params.get('to')) || '',
+        overdue: params.get('overdue') === '1',
+        noDueDate: params.get('undated') === '1',
+        sort: Object.keys(SORT_OPTIONS).includes(sort) ? sort as SortKey : DEFAULT_FILTERS.sort,
+    };
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Repository } from './repository';
+import { SheetExistsError, SubTaskConflictError } from './repository';
+import { createLocalRepository } from './localRepository';
+import { newTask, newSubTask } from './fixtures';
+
+describe('createLocalRepository', () => {
+    let repository: Repository;
+
+    beforeEach(() => {
+        repository = createLocalRepository(null);
+    });
+
+    it('starts from the demo workspace', async () => {
+        expect((await repository.listTasks()).length).toBeGreaterThan(0);
+        expect((await repository.listSubTasks('Chai x Pasty GRWM')).map(st => st.name)).toContain('Rough cut');
+        expect((await repository.listTeam()).map(member => member.name)).toContain('Taylor Trash');
+    });
+
+    it('adds a job along with its project', async () => {
+        await repository.addTask(newTask('Sizzle reel'));
+        expect((await repository.listTasks()).some(t => t.name === 'Sizzle reel')).toBe(true);
+        expect(await repository.listSubTasks('Sizzle reel')).toEqual([]);
+    });
+
+    it('moves a job\'s project when it\'s renamed, but not onto another project', async () => {
+        await repository.addTask(newTask('Sizzle reel'));
+        await repository.addSubTasks('Sizzle reel', [newSubTask('Pick clips')]);
+        const task = (await repository.listTasks()).find(t => t.name === 'Sizzle reel');
+        await repository.updateTask({ ...task, name: 'Gold Rush sizzle reel' });
+        expect((await repository.listSubTasks('Gold Rush sizzle reel')).map(st => st.name)).toEqual(['Pick clips']);
+        await expect(repository.updateTask({ ...task, name: 'Chai x Pasty GRWM' })).rejects.toBeInstanceOf(SheetExistsError);
+    });
+
+    it('keeps imported sub-task IDs and makes up the rest', async () => {
+        await repository.addSubTasks('Pasty Dragumentary', [{ ...newSubTask('Premiere'), id: 'ics-0123456789abcdef' }, newSubTask('Poster')]);
+        const [premiere, poster] = await repository.listSubTasks('Pasty Dragumentary');
+        expect(premiere.id).toBe('ics-0123456789abcdef');
+        expect(poster.id).toBeTruthy();
+    });
+
+    it('refuses to save over a sub-task changed since it was loaded', async () => {
+        const [cut] = (await repository.listSubTasks('Chai x Pasty GRWM')).filter(st => st.id === 'demo-grwm-cut');
+        const saved = await repository.updateSubTask('Chai x Pasty GRWM', cut, { status: 'In Review' });
+        expect(saved).toMatchObject({ status: 'In Review', dependsOn: ['demo-grwm-ingest'] });
+        expect(saved.revision).not.toBe(cut.revision);
+        await expect(repository.updateSubTask('Chai x Pasty GRWM', cut, { status: 'Done' })).rejects.toBeInstanceOf(SubTaskConflictError);
+    });
+
+    it('keeps the workspace in the storage it was given', async () => {
+        const values = new Map<string, string>();
+        const storage = {
+            getItem: (key: string) => values.get(key) ?? null,
+            setItem: (key: string, value: string) => {
+                values.set(key, value);
+            },
+        } as Partial<Storage> as Storage;
+        await createLocalRepository(storage).addTask(newTask('Sizzle reel'));
+        expect((await createLocalRepository(storage).listTasks()).some(t => t.name === 'Sizzle reel')).toBe(true);
+    });
+
+    it('names saved reports apart', async () => {
+        expect(await repository.saveReport('Weekly Report 2025-10-24', [['a']])).toBe('Weekly Report 2025-10-24');
+        expect(await repository.saveReport('Weekly Report 2025-10-24', [['b']])).toBe('Weekly Report 2025-10-24 (2)');
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask, TeamMember, Grant, NewGrant, ProjectTemplate, AuditEntry } from '../types';
+import { SheetNotFoundError, SheetExistsError, SubTaskConflictError, createSubTaskId, createTaskId, createGrantId, type Repository } from './repository';
+
+const STORAGE_KEY = 'localWorkspace';
+
+interface Workspace {
+    nextId: number;
+    tasks: Task[];
+    projects: Record<string, SubTask[]>;
+    team?: TeamMember[];
+    grants?: Grant[];
+    templates?: ProjectTemplate[];
+    reports?: Record<string, string[][]>;
+    audit?: AuditEntry[];
+}
+
+// localStorage is small, so only the most recent changes are kept.
+const MAX_AUDIT_ENTRIES = 2000;
+
+// Demo data for the local workspace, taken from the production team's Live Jobs list.
+const DEMO_TASKS: NewTask[] = [
+    { name: 'Chai x Pasty GRWM', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: '2025-10-20', dueDate: '2025-10-24', notes: 'Need to add in viewing party footage, needs SH review & sign off', recurrence: null },
+    { name: 'Taylor RPDR Audition Tape', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: '2025-10-20', dueDate: '2025-10-27', notes: 'TT to do', recurrence: null },
+    { name: 'TrashTV Logo Design', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: null, dueDate: '2025-10-24', notes: 'SH - TT review', recurrence: null },
+    { name: 'Follow up with National Lottery Grant', priority: 'High Priority', assignee: 'Taylor Trash', status: 'In Progress', startDate: null, dueDate: null, notes: 'TT to do', recurrence: null },
+    { name: 'Follow up with ITV Grant', priority: 'High Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: 'TT to do - needs SH support', recurrence: null },
+    { name: 'Access to Work Headphones for Jess', priority: 'High Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: 'TT to do - needs SH support', recurrence: null },
+    { name: 'Pasty Oversize Photoshoot', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'Todo', startDate: '2025-10-24', dueDate: '2025-10-24', notes: 'SH waiting to hear back from Mikis', recurrence: null },
+    { name: 'The Gold Rush Pitch Sizzle Reel', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: '2025-11-28', notes: 'Ongoing', recurrence: null },
+    { name: 'Pasty Dragumentary', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-11-27', notes: null, recurrence: null },
+    { name: 'Sweet Tea x Jan podcast content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-11-27', notes: null, recurrence: 'Weekly' },
+    { name: 'DragCon 2025 Interviews', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: '2026-01-10', notes: null, recurrence: null },
+    { name: 'Sweet Tea x Michael Marouli YT content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Sweet Tea x Bobby Summers YT content', priority: 'Low Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Sweet Tea x Lawrence Chaney YT content', priority: 'Low Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Follow up on FSB Grant', priority: 'Low Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Follow up with BFi Grant', priority: 'Low Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Chai x Pasty \'Hot Ones\'', priority: 'Mid-level Priority', assignee: 'jess@trashtv.productions', status: 'Todo', startDate: null, dueDate: '2025-10-27', notes: null, recurrence: null },
+    { name: 'Anita Piss Trashy Takeover video', priority: 'Mid-level Priority', assignee: 'sammy@trashtv.productions', status: 'In Progress', startDate: null, dueDate: null, notes: null, recurrence: null },
+    { name: 'Follow up with Tottenham Grant', priority: 'Mid-level Priority', assignee: 'Taylor Trash', status: 'Todo', startDate: null, dueDate: null, notes: null, recurrence: null },
+];
+
+const DEMO_TEAM: TeamMember[] = [
+    { name: 'Taylor Trash', email: 'taylor@trashtv.productions', aliases: ['TT'], role: 'Producer' },
+    { name: 'Jess Queen', email: 'jess@trashtv.productions', aliases: [], role: 'Editor' },
+    { name: 'Sammy Harkin', email: 'sammy@trashtv.productions', aliases: ['SH'], role: 'Producer' },
+];
+
+// The funders behind the grant chasers on the demo Live Jobs list.
+const DEMO_GRANTS: NewGrant[] = [
+    { name: 'Awards for All', funder: 'National Lottery Community Fund', owner: 'Taylor Trash', amountRequested: 10000, amountAwarded: null, stage: 'Submitted', submissionDeadline: '2025-09-26', reportingDeadlines: [], contact: '', notes: null },
+    { name: 'ITV Creative Diversity Fund', funder: 'ITV', owner: 'Sammy Harkin', amountRequested: 25000, amountAwarded: null, stage: 'Drafting', submissionDeadline: '2025-11-14', reportingDeadlines: [], contact: '', notes: null },
+    { name: 'BFI Short Form Funding', funder: 'BFI', owner: 'Taylor Trash', amountRequested: 15000, amountAwarded: null, stage: 'Researching', submissionDeadline: null, reportingDeadlines: [], contact: '', notes: null },
+    { name: 'FSB Small Business Grant', funder: 'FSB', owner: 'Jess Queen', amountRequested: 2500, amountAwarded: 2500, stage: 'Decision', submissionDeadline: '2025-06-30', reportingDeadlines: ['2025-12-31'], contact: '', notes: null },
+    { name: 'Tottenham Creative Enterprise Grant', funder: 'Haringey Council', owner: 'Taylor Trash', amountRequested: 5000, amountAwarded: null, stage: 'Submitted', submissionDeadline: '2025-10-03', reportingDeadlines: [], contact: '', notes: null },
+];
+
+const DEMO_PROJECTS: Record<string, (NewSubTask & { id: string })[]> = {
+    'Chai x Pasty GRWM': [
+        { id: 'demo-grwm-ingest', name: 'Ingest viewing party footage', assignee: 'Taylor Trash', status: 'Done', notes: '', dueDate: '2025-10-20', recurrence: '', dependsOn: [] },
+        { id: 'demo-grwm-cut', name: 'Rough cut', assignee: 'Taylor Trash', status: 'In Progress', notes: '', dueDate: '2025-10-22', recurrence: '', dependsOn: ['demo-grwm-ingest'] },
+        { id: 'demo-grwm-review', name: 'SH review & sign off', assignee: 'sammy@trashtv.productions', status: 'Todo', notes: '', dueDate: '2025-10-24', recurrence: '', dependsOn: ['demo-grwm-cut'] },
+    ],
+};
+
+const subTaskRevision = (subTask: NewSubTask) =>
+    [subTask.name, subTask.assignee, subTask.status, subTask.notes, subTask.dueDate, subTask.recurrence, (subTask.dependsOn || []).join(', ')].join('\u001f');
+
+// Sub-tasks saved before dependencies were tracked have none.
+const copySubTask = (subTask: SubTask): SubTask => ({ ...subTask, dependsOn: [...(subTask.dependsOn || [])] });
+
+const toSubTask = (subTask: NewSubTask, id = createSubTaskId()): SubTask => ({
+    ...subTask,
+    id,
+    revision: subTaskRevision(subTask),
+});
+
+const createDemoGrants = (): Grant[] => DEMO_GRANTS.map(grant => ({ ...grant, id: createGrantId() }));
+
+const createDemoWorkspace = (): Workspace => {
+    let nextId = 2;
+    const tasks = DEMO_TASKS.map(task => ({ ...task, id: nextId++, uid: createTaskId() }));
+    const projects = Object.fromEntries(tasks.map(task => [
+        task.name,
+        (DEMO_PROJECTS[task.name] || []).map(({ id, ...subTask }) => toSubTask(subTask, id)),
+    ]));
+    return { nextId, tasks, projects, team: DEMO_TEAM, grants: createDemoGrants() };
+};
+
+/**
+ * A repository that keeps the whole workspace in the browser, so the hub can run without a
+ * Google account. Pass `null` as the storage to keep everything in memory only.
+ */
+export const createLocalRepository = (storage: Storage | null = window.localStorage): Repository => {
+    const load = (): Workspace => {
+        const saved = storage?.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : createDemoWorkspace();
+    };
+
+    let workspace = load();
+
+    const save = () => {
+        storage?.setItem(STORAGE_KEY, JSON.stringify(workspace));
+    };
+
+    // Workspaces saved before grants were tracked start from the demo grants, and grants saved
+    // when they were known by row number are given IDs.
+    const getGrants = () => {
+        workspace.grants = (workspace.grants || createDemoGrants())
+            .map(grant => (typeof grant.id === 'string' ? grant : { ...grant, id: createGrantId() }));
+        return workspace.grants;
+    };
+
+    const getProject = (projectName: string) => {
+        const project = workspace.projects[projectName];
+        if (!project) {
+            throw new SheetNotFoundError(projectName);
+        }
+        return project;
+    };
+
+    return {
+        async listTasks() {
+            // Workspaces saved before jobs had IDs get them now.
+            if (workspace.tasks.some(task => !task.uid)) {
+                workspace.tasks = workspace.tasks.map(task => (task.uid ? task : { ...task, uid: createTaskId() }));
+                save();
+            }
+            return workspace.tasks.map(task => ({ ...task }));
+        },
+
+        async addTask({ uid, ...task }) {
+            if (uid && workspace.tasks.some(t => t.uid === uid)) return;
+            workspace.tasks.push({ ...task, id: workspace.nextId++, uid: uid || createTaskId() });
+            workspace.projects[task.name] = workspace.projects[task.name] || [];
+            save();
+        },
+
+        async updateTask(task) {
+            const oldName = workspace.tasks.find(t => t.id === task.id)?.name;
+            if (oldName && oldName !== task.name && workspace.projects[oldName]) {
+                if (workspace.projects[task.name]) {
+                    throw new SheetExistsError(task.name);
+                }
+                workspace.projects[task.name] = workspace.projects[oldName];
+                delete workspace.projects[oldName];
+            }
+            workspace.tasks = workspace.tasks.map(t => t.id === task.id ? { ...task } : t);
+            save();
+        },
+
+        async deleteTask(task) {
+            workspace.tasks = workspace.tasks.filter(t => t.id !== task.id);
+            save();
+        },
+
+        async listTeam() {
+            return (workspace.team || DEMO_TEAM).map(member => ({ ...member, aliases: [...member.aliases] }));
+        },
+
+        async listGrants() {
+            return getGrants().map(grant => ({ ...grant, reportingDeadlines: [...grant.reportingDeadlines] }));
+        },
+
+        async addGrant({ id, ...grant }) {
+            const grants = getGrants();
+            if (id && grants.some(g => g.id === id)) return;
+            grants.push({ ...grant, id: id || createGrantId() });
+            save();
+        },
+
+        async updateGrant(grant) {
+            workspace.grants = getGrants().map(g => g.id === grant.id ? { ...grant } : g);
+            save();
+        },
+
+        async listSubTasks(projectName) {
+            return getProject(projectName).map(copySubTask);
+        },
+
+        async listSubTasksForProjects(projectNames) {
+            return Object.fromEntries(projectNames
+                .filter(name => workspace.projects[name])
+                .map(name => [name, workspace.projects[name].map(copySubTask)]));
+        },
+
+        async addSubTasks(projectName, subTasks) {
+            const project = getProject(projectName);
+            subTasks
+                .filter(({ id }) => !project.some(st => st.id === id))
+                .forEach(({ id, ...subTask }) => project.push(toSubTask(subTask, id)));
+            save();
+        },
+
+        async updateSubTask(projectName, subTask, changes) {
+            const project = getProject(projectName);
+            const saved = project.find(st => st.id === subTask.id);
+            if (!saved) {
+                throw new SubTaskConflictError(subTask.id, `"${subTask.name}" was removed from the project.`);
+            }
+            if (saved.revision !== subTask.revision) {
+                throw new SubTaskConflictError(subTask.id, `"${subTask.name}" was changed since it was loaded.`);
+            }
+            const updated = toSubTask({ ...saved, ...changes }, saved.id);
+            workspace.projects[projectName] = project.map(st => st.id === updated.id ? updated : st);
+            save();
+            return copySubTask(updated);
+        },
+
+        async createProject(projectName) {
+            workspace.projects[projectName] = workspace.projects[projectName] || [];
+            save();
+        },
+
+        async listTemplates() {
+            return (workspace.templates || []).map(template => ({ ...template, steps: template.steps.map(step => ({ ...step })) }));
+        },
+
+        async addTemplate(template) {
+            workspace.templates = [...(workspace.templates || []), template];
+            save();
+        },
+
+        async saveReport(title, rows) {
+            const reports = workspace.reports = workspace.reports || {};
+            let name = title;
+            for (let n = 2; reports[name]; n++) {
+                name = `${title} (${n})`;
+            }
+            reports[name] = rows;
+            save();
+            return name;
+        },
+
+        async appendAudit(entries) {
+            workspace.audit = [...(workspace.audit || []), ...entries].slice(-MAX_AUDIT_ENTRIES);
+            save();
+        },
+
+        async listAudit() {
+            return (workspace.audit || []).map(entry => ({ ...entry }));
+        },
+    };
+};
+
+// Clears the saved local workspace so the next load starts again from the demo data.
+export const resetLocalWorkspace = (storage: Storage = window.localStorage) => {
+    storage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask, Grant, NewGrant, AuditEntry } from '../types';
+
+// A repository write that could not be saved yet.
+export type QueuedWrite =
+    | { kind: 'addTask'; task: NewTask & { uid?: string } }
+    | { kind: 'updateTask'; task: Task }
+    | { kind: 'deleteTask'; task: Task }
+    | { kind: 'addSubTasks'; projectName: string; subTasks: (NewSubTask & { id?: string })[] }
+    | { kind: 'updateSubTask'; projectName: string; subTask: SubTask; changes: Partial<NewSubTask> }
+    | { kind: 'addGrant'; grant: NewGrant & { id?: string } }
+    | { kind: 'updateGrant'; grant: Grant }
+    | { kind: 'appendAudit'; entries: AuditEntry[] };
+
+export type QueueEntryStatus = 'pending' | 'failed';
+
+export interface QueueEntry {
+    id?: number;
+    write: QueuedWrite;
+    // 'pending' entries are replayed automatically; 'failed' ones wait for a retry or discard.
+    status: QueueEntryStatus;
+    error: string | null;
+    createdAt: string;
+}
+
+export interface OfflineQueue {
+    list(): Promise<QueueEntry[]>;
+    add(entry: QueueEntry): Promise<QueueEntry>;
+    put(entry: QueueEntry): Promise<void>;
+    remove(id: number): Promise<void>;
+    subscribe(listener: (entries: QueueEntry[]) => void): () => void;
+}
+
+const DB_NAME = 'trashtv-hub';
+const STORE_NAME = 'writeQueue';
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const openDatabase = () => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    return request(req);
+};
+
+/**
+ * A durable, ordered queue of writes kept in IndexedDB so edits made offline survive a reload.
+ * Falls back to an in-memory queue where IndexedDB is unavailable.
+ */
+export const createOfflineQueue = (): OfflineQueue => {
+    const listeners = new Set<(entries: QueueEntry[]) => void>();
+    const dbPromise = typeof indexedDB !== 'undefined' ? openDatabase().catch(() => null) : Promise.resolve(null);
+    let memoryEntries: QueueEntry[] = [];
+    let nextMemoryId = 1;
+
+    const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await dbPromise;
+        if (!db) return null;
+        return request(fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    };
+
+    const list = async () => {
+        const entries = await withStore('readonly', store => store.getAll() as IDBRequest<QueueEntry[]>);
+        // Keys are auto-incremented, so sorting by id keeps the order writes were made in.
+        return (entries ?? memoryEntries).slice().sort((a, b) => a.id - b.id);
+    };
+
+    const notify = async () => {
+        const entries = await list();
+        listeners.forEach(listener => listener(entries));
+    };
+
+    return {
+        list,
+
+        async add(entry) {
+            const id = await withStore('readwrite', store => store.add(entry) as IDBRequest<number>);
+            const saved = { ...entry, id: id ?? nextMemoryId++ };
+            if (id === null) memoryEntries.push(saved);
+            await notify();
+            return saved;
+        },
+
+        async put(entry) {
+            const id = await withStore('readwrite', store => store.put(entry));
+            if (id === null) memoryEntries = memoryEntries.map(e => e.id === entry.id ? entry : e);
+            await notify();
+        },
+
+        async remove(id) {
+            const result = await withStore('readwrite', store => store.delete(id));
+            if (result === null) memoryEntries = memoryEntries.filter(e => e.id !== id);
+            await notify();
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            list().then(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { parseRecurrence, formatRecurrence, nextOccurrence, nextJobName, completeTask, completeSubTask } from './recurrence';
+import { task as baseTask, subTask as baseSubTask } from './fixtures';
+import type { Task, SubTask } from '../types';
+
+const task = (fields: Partial<Task> = {}) => baseTask(2, {
+    uid: 'job-1', name: 'Podcast Ep 12', assignee: 'Jess Queen', status: 'In Progress',
+    startDate: '2025-11-03', dueDate: '2025-11-05', recurrence: 'Weekly', ...fields,
+});
+
+const subTask = (fields: Partial<SubTask> = {}) => baseSubTask('st-1', {
+    name: 'Upload', dueDate: '2025-11-05', recurrence: 'Fortnightly', dependsOn: ['st-0'], ...fields,
+});
+
+describe('parseRecurrence', () => {
+    it('reads the rules written in the sheet', () => {
+        expect(parseRecurrence('Weekly')).toEqual({ frequency: 'weekly', until: null });
+        expect(parseRecurrence('every two weeks until 2026-03-31')).toEqual({ frequency: 'fortnightly', until: '2026-03-31' });
+        expect(parseRecurrence('Monthly on the last Friday')).toEqual({ frequency: 'monthly', nth: -1, weekday: 5, until: null });
+    });
+
+    it('is null for nothing or something it doesn\'t understand', () => {
+        expect(parseRecurrence('')).toBeNull();
+        expect(parseRecurrence(null)).toBeNull();
+        expect(parseRecurrence('Every other Tuesday')).toBeNull();
+        expect(parseRecurrence('Weekly until 2026-02-30')).toBeNull();
+    });
+
+    it('round-trips through formatRecurrence', () => {
+        ['Weekly', 'Fortnightly until 2026-03-31', 'Monthly on the 2nd Tuesday', 'Monthly'].forEach(text => {
+            expect(formatRecurrence(parseRecurrence(text))).toBe(text);
+        });
+    });
+});
+
+describe('nextOccurrence', () => {
+    it('adds a week or a fortnight', () => {
+        expect(nextOccurrence({ frequency: 'weekly', until: null }, '2025-12-29')).toBe('2026-01-05');
+        expect(nextOccurrence({ frequency: 'fortnightly', until: null }, '2025-11-05')).toBe('2025-11-19');
+    });
+
+    it('repeats monthly on the same week and weekday', () => {
+        // 2025-11-11 is the 2nd Tuesday of November.
+        expect(nextOccurrence({ frequency: 'monthly', until: null }, '2025-11-11')).toBe('2025-12-09');
+        expect(nextOccurrence({ frequency: 'monthly', nth: -1, weekday: 5, until: null }, '2025-11-28')).toBe('2025-12-26');
+    });
+
+    it('stops after the until date', () => {
+        expect(nextOccurrence({ frequency: 'weekly', until: '2025-11-10' }, '2025-11-05')).toBeNull();
+    });
+});
+
+describe('nextJobName', () => {
+    it('counts up an episode counter', () => {
+        expect(nextJobName('Podcast Ep 12', '2025-11-12')).toBe('Podcast Ep 13');
+        expect(nextJobName('Newsletter #9', '2025-11-12')).toBe('Newsletter #10');
+    });
+
+    it('adds or replaces the due date otherwise', () => {
+        expect(nextJobName('DragCon 2025', '2026-11-04')).toBe('DragCon 2025 – 2026-11-04');
+        expect(nextJobName('Sweet Tea YT content – 2025-11-04', '2025-11-11')).toBe('Sweet Tea YT content – 2025-11-11');
+    });
+});
+
+describe('completeTask', () => {
+    it('hands the rule on to the next occurrence', () => {
+        const { updated, next } = completeTask(task(), { status: 'Done' });
+        expect(updated).toMatchObject({ status: 'Done', recurrence: null });
+        expect(next).toMatchObject({ name: 'Podcast Ep 13', status: 'Todo', startDate: '2025-11-10', dueDate: '2025-11-12', recurrence: 'Weekly' });
+    });
+
+    it('adds nothing when the job was already done or doesn\'t repeat', () => {
+        expect(completeTask(task({ status: 'Done' }), { notes: 'x' }).next).toBeNull();
+        expect(completeTask(task({ recurrence: null }), { status: 'Done' }).next).toBeNull();
+    });
+});
+
+describe('completeSubTask', () => {
+    it('clears the rule on the finished sub-task and starts the next without dependencies', () => {
+        const { changes, next } = completeSubTask(subTask(), { status: 'Done' });
+        expect(changes).toEqual({ status: 'Done', recurrence: '' });
+        expect(next).toMatchObject({ name: 'Upload', dueDate: '2025-11-19', recurrence: 'Fortnightly', dependsOn: [] });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask } from '../types';
+import { isDone } from '../utils/status';
+import { isValidIsoDate, addDays, daysBetween, parseIsoDate, toIsoDate, todayIso } from '../utils/dates';
+
+// Repeating jobs and sub-tasks. The rule is kept in the row's Repeat column as plain text, e.g.
+// "Weekly", "Fortnightly until 2026-03-31" or "Monthly on the 2nd Tuesday", so it can be read
+// and typed in the sheet too.
+
+export type Frequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export interface RecurrenceRule {
+    frequency: Frequency;
+    // For monthly rules: which week (1 to 4, or -1 for the last) and day (0 is Sunday).
+    nth?: number;
+    weekday?: number;
+    until: string | null; // No occurrence falls after this date
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const NTH_LABELS: Record<string, string> = { '1': '1st', '2': '2nd', '3': '3rd', '4': '4th', '-1': 'last' };
+
+const FREQUENCY_ALIASES: Record<string, Frequency> = {
+    'weekly': 'weekly',
+    'every week': 'weekly',
+    'fortnightly': 'fortnightly',
+    'biweekly': 'fortnightly',
+    'every 2 weeks': 'fortnightly',
+    'every two weeks': 'fortnightly',
+    'monthly': 'monthly',
+    'every month': 'monthly',
+};
+
+const MONTHLY_PATTERN = /^(?:monthly|every month) on the (1st|2nd|3rd|4th|last) (\w+)$/;
+
+// Reads a rule as written in the sheet, or null when there is none (or it isn't understood).
+export const parseRecurrence = (text: string | null | undefined): RecurrenceRule | null => {
+    let value = (text || '').trim().toLowerCase();
+    if (!value) return null;
+    let until = null;
+    const untilMatch = value.match(/^(.*?)\s+until\s+(\d{4}-\d{2}-\d{2})$/);
+    if (untilMatch) {
+        if (!isValidIsoDate(untilMatch[2])) return null;
+        [, value, until] = untilMatch;
+    }
+    const monthly = value.match(MONTHLY_PATTERN);
+    if (monthly) {
+        const nth = Number(Object.keys(NTH_LABELS).find(key => NTH_LABELS[key] === monthly[1]));
+        const weekday = WEEKDAYS.findIndex(day => day.toLowerCase() === monthly[2]);
+        return weekday === -1 ? null : { frequency: 'monthly', nth, weekday, until };
+    }
+    const frequency = FREQUENCY_ALIASES[value];
+    // A plain "Monthly" has no day of its own, so it's pinned to one when the next date is worked out.
+    return frequency ? { frequency, until } : null;
+};
+
+export const formatRecurrence = (rule: RecurrenceRule | null): string => {
+    if (!rule) return '';
+    let text = rule.frequency === 'weekly' ? 'Weekly' : rule.frequency === 'fortnightly' ? 'Fortnightly' : 'Monthly';
+    if (rule.frequency === 'monthly' && rule.weekday !== undefined) {
+        text += ` on the ${NTH_LABELS[String(rule.nth)]} ${WEEKDAYS[rule.weekday]}`;
+    }
+    return rule.until ? `${text} until ${rule.until}` : text;
+};
+
+// Which week of its month a date falls in, counting from the start (1 to 5) or, for the last
+// seven days of the month, as -1.
+export const nthWeekdayOf = (date: string) => {
+    const day = parseIsoDate(date);
+    const nth = Math.ceil(day.getDate() / 7);
+    const nextWeek = parseIsoDate(addDays(date, 7));
+    return { nth: nextWeek.getMonth() !== day.getMonth() ? -1 : nth, weekday: day.getDay() };
+};
+
+// The nth given weekday of a month (0-based month), e.g. the 2nd Tuesday of March.
+const nthWeekdayIn = (year: number, month: number, nth: number, weekday: number) => {
+    if (nth === -1) {
+        const last = new Date(year, month + 1, 0);
+        last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+        return toIsoDate(last);
+    }
+    const first = new Date(year, month, 1);
+    first.setDate(1 + ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+    return toIsoDate(first);
+};
+
+/**
+ * The date of the occurrence after the one on `from`, or null once the rule has ended.
+ * Monthly rules without a day of their own repeat on the same week and weekday as `from`.
+ */
+export const nextOccurrence = (rule: RecurrenceRule, from: string): string | null => {
+    let next: string;
+    if (rule.frequency === 'monthly') {
+        const own = nthWeekdayOf(from);
+        const nth = rule.weekday === undefined ? Math.min(own.nth, 4) : rule.nth;
+        const weekday = rule.weekday === undefined ? own.weekday : rule.weekday;
+        const date = parseIsoDate(from);
+        // Usually next month, unless `from` is before this month's occurrence.
+        next = nthWeekdayIn(date.getFullYear(), date.getMonth(), nth, weekday);
+        if (next <= from) next = nthWeekdayIn(date.getFullYear(), date.getMonth() + 1, nth, weekday);
+    } else {
+        next = addDays(from, rule.frequency === 'weekly' ? 7 : 14);
+    }
+    return rule.until && next > rule.until ? null : next;
+};
+
+// A trailing episode or issue counter, e.g. "Ep 12", "Episode 12", "Part 3" or "#12". Other
+// trailing numbers, like the year in "DragCon 2025", are part of the name.
+const COUNTER_PATTERN = /^(.*(?:\b(?:ep|episode|part|pt|vol|volume|no)\.?\s*|#\s*))(\d+)$/i;
+
+// Jobs share their name with their project tab, so each occurrence needs a name of its own:
+// an episode counter counts up ("Podcast Ep 12" → "Podcast Ep 13"), otherwise the new due
+// date is added or replaced ("Sweet Tea YT content – 2025-11-04").
+export const nextJobName = (name: string, dueDate: string) => {
+    const dated = name.match(/^(.*) – \d{4}-\d{2}-\d{2}$/);
+    if (dated) return `${dated[1]} – ${dueDate}`;
+    const numbered = name.match(COUNTER_PATTERN);
+    if (numbered) return `${numbered[1]}${Number(numbered[2]) + 1}`;
+    return `${name} – ${dueDate}`;
+};
+
+/**
+ * The job that follows one being marked Done, carrying the rule on, or null if it doesn't
+ * repeat (or the rule has run out). Undated jobs repeat from today.
+ */
+export const nextTaskOccurrence = (task: Task): NewTask | null => {
+    const rule = parseRecurrence(task.recurrence);
+    if (!rule) return null;
+    const from = isValidIsoDate(task.dueDate) ? task.dueDate : todayIso();
+    const dueDate = nextOccurrence(rule, from);
+    if (!dueDate) return null;
+    const shift = daysBetween(from, dueDate);
+    return {
+        name: nextJobName(task.name, dueDate),
+        priority: task.priority,
+        assignee: task.assignee,
+        status: 'Todo',
+        startDate: isValidIsoDate(task.startDate) ? addDays(task.startDate, shift) : null,
+        dueDate,
+        notes: task.notes,
+        recurrence: task.recurrence,
+    };
+};
+
+export const nextSubTaskOccurrence = (subTask: SubTask): NewSubTask | null => {
+    const rule = parseRecurrence(subTask.recurrence);
+    if (!rule) return null;
+    const dueDate = nextOccurrence(rule, isValidIsoDate(subTask.dueDate) ? subTask.dueDate : todayIso());
+    if (!dueDate) return null;
+    return {
+        name: subTask.name,
+        assignee: subTask.assignee,
+        status: 'Todo',
+        notes: subTask.notes,
+        dueDate,
+        recurrence: subTask.recurrence,
+        dependsOn: [],
+    };
+};
+
+/**
+ * Marking a repeating job Done hands its rule on to the next occurrence: the finished job keeps
+ * its history but drops the rule, so reopening and re-closing it doesn't add a second copy.
+ * Returns the job as it should be saved and the one to add, if any.
+ */
+export const completeTask = (task: Task, changes: Partial<Task>) => {
+    const updated = { ...task, ...changes };
+    const next = isDone(updated.status) && !isDone(task.status) ? nextTaskOccurrence(updated) : null;
+    return { updated: next ? { ...updated, recurrence: null } : updated, next };
+};
+
+// As completeTask, for a sub-task edit: the changes to save and the sub-task to add, if any.
+export const completeSubTask = (subTask: SubTask, changes: Partial<NewSubTask>) => {
+    const updated = { ...subTask, ...changes };
+    const next = isDone(updated.status) && !isDone(subTask.status) ? nextSubTaskOccurrence(updated) : null;
+    return { changes: next ? { ...changes, recurrence: '' } : changes, next };
+};
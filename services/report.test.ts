@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import type { AuditEntry } from '../types';
+import { collectWeeklyReport, reportBreakdowns, reportToMarkdown } from './report';
+import { HUB_SHEET_NAME } from './sheetsRepository';
+import { ROSTER, task, subTask } from './fixtures';
+
+const TODAY = '2025-10-24';
+
+const tasks = [
+    task(2, { name: 'Chai x Pasty GRWM', assignee: 'TT', status: 'Done', dueDate: '2025-10-01' }),
+    task(3, { name: 'Logo design', assignee: 'Sammy Harkin', status: 'Blocked', dueDate: '2025-10-20' }),
+    task(4, { name: 'Podcast Ep 12', assignee: 'Jess Queen', dueDate: '2025-10-30' }),
+];
+
+const subTasksByProject = {
+    'Podcast Ep 12': [
+        subTask('record', { name: 'Record', status: 'Done', dueDate: '2025-10-22' }),
+        subTask('edit', { name: 'Edit', status: 'Done', dueDate: '2025-10-23' }),
+    ],
+};
+
+const statusChange = (sheet: string, recordId: string, newValue: string, timestamp: string): AuditEntry => ({
+    timestamp, user: 'jess@trashtv.productions', sheet, recordId, record: recordId, field: 'status', oldValue: '', newValue, changeId: timestamp,
+});
+
+const NARRATIVE = { headline: 'A steady week.', summary: 'Most things moved.', highlights: [], risks: [] };
+
+describe('collectWeeklyReport', () => {
+    it('counts work as done this week by when the log says it was marked done', () => {
+        const audit = [
+            statusChange(HUB_SHEET_NAME, 'job-2', 'Done', '2025-10-21T10:00:00'),
+            statusChange('Podcast Ep 12', 'edit', 'Done', '2025-10-10T10:00:00'),
+        ];
+        const report = collectWeeklyReport(tasks, subTasksByProject, ROSTER, TODAY, audit);
+        expect(report.doneThisWeek.map(item => [item.name, item.finishedOn])).toEqual([
+            ['Chai x Pasty GRWM', '2025-10-21'],
+            ['Record', null],
+        ]);
+    });
+
+    it('falls back to the due date for work marked done in the sheet', () => {
+        const report = collectWeeklyReport(tasks, subTasksByProject, ROSTER, TODAY);
+        expect(report.doneThisWeek.map(item => item.name)).toEqual(['Record', 'Edit']);
+    });
+
+    it('sorts open work into overdue, blocked and due next week, per assignee and project', () => {
+        const report = collectWeeklyReport(tasks, subTasksByProject, ROSTER, TODAY);
+        expect(report.overdue.map(item => item.name)).toEqual(['Logo design']);
+        expect(report.blocked.map(item => item.name)).toEqual(['Logo design']);
+        expect(report.dueNextWeek.map(item => item.name)).toEqual(['Podcast Ep 12']);
+        expect(Object.keys(report.byAssignee).sort()).toEqual(['Jess Queen', 'Sammy Harkin', 'Unassigned']);
+        expect(reportBreakdowns(report)[0].rows).toEqual([
+            ['Project', 'Done this week', 'Overdue', 'Blocked', 'Due next week'],
+            ['Logo design', '0', '1', '1', '0'],
+            ['Podcast Ep 12', '2', '0', '0', '1'],
+        ]);
+    });
+});
+
+describe('reportToMarkdown', () => {
+    it('lays out the summary, tables and sections without doubled blank lines', () => {
+        const markdown = reportToMarkdown(collectWeeklyReport(tasks, subTasksByProject, ROSTER, TODAY), NARRATIVE);
+        expect(markdown.startsWith('# Weekly Report 2025-10-24\n\n_')).toBe(true);
+        expect(markdown).not.toMatch(/\n\n\n/);
+        expect(markdown).toContain('## Overdue (1)\n\n| Project | Item | Assignee | Status | Due |');
+        expect(markdown).not.toContain('## Highlights');
+    });
+});
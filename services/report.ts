@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from '@google/genai';
+import type { Task, SubTask, TeamMember, AuditEntry } from '../types';
+import { canonicalAssignee } from './roster';
+import { HUB_SHEET_NAME } from './sheetsRepository';
+import { isDone, normalizeStatus } from '../utils/status';
+import { isValidIsoDate, addDays, formatDate, toIsoDate } from '../utils/dates';
+
+// The weekly status report: the facts and the per-assignee and per-project tables are worked
+// out here from the jobs and project tabs, and Gemini only writes the summary above them.
+
+export interface ReportItem {
+    project: string;
+    name: string; // The job's name for a job, the sub-task's for a sub-task
+    isJob: boolean;
+    assignee: string;
+    status: string;
+    dueDate: string | null;
+    // When it was last marked done through the hub; null when that isn't in the audit log.
+    finishedOn: string | null;
+}
+
+export interface ReportSection {
+    doneThisWeek: ReportItem[];
+    overdue: ReportItem[];
+    blocked: ReportItem[];
+    dueNextWeek: ReportItem[];
+}
+
+export interface WeeklyReportData extends ReportSection {
+    today: string;
+    weekStart: string; // The first day of the week being reported on
+    nextWeekEnd: string;
+    byAssignee: Record<string, ReportSection>;
+    byProject: Record<string, ReportSection>;
+}
+
+export interface ReportNarrative {
+    headline: string;
+    summary: string;
+    highlights: string[];
+    risks: string[];
+}
+
+const emptySection = (): ReportSection => ({ doneThisWeek: [], overdue: [], blocked: [], dueNextWeek: [] });
+
+const UNASSIGNED = 'Unassigned';
+
+// The day each job and sub-task was last marked done through the hub, by tab and record ID,
+// from the audit log (oldest entry first). Reopening one clears it.
+const finishedDays = (audit: AuditEntry[]) => {
+    const days = new Map<string, string | null>();
+    audit
+        .filter(entry => entry.field === 'status')
+        .forEach(entry => days.set(`${entry.sheet}\n${entry.recordId}`, isDone(entry.newValue) ? toIsoDate(new Date(entry.timestamp)) : null));
+    return days;
+};
+
+/**
+ * Sorts every job and sub-task into what is done, what slipped, what is blocked and what is
+ * due in the coming week. Done work counts for the week it was marked done in, as the audit
+ * log records it. Work marked done in the sheet by hand isn't logged, so that counts when
+ * it's due within the past week instead, whenever it was actually finished.
+ */
+export const collectWeeklyReport = (
+    tasks: Task[],
+    subTasksByProject: Record<string, SubTask[]>,
+    roster: TeamMember[],
+    today: string,
+    audit: AuditEntry[] = [],
+): WeeklyReportData => {
+    const weekStart = addDays(today, -6);
+    const nextWeekEnd = addDays(today, 7);
+    const report: WeeklyReportData = { ...emptySection(), today, weekStart, nextWeekEnd, byAssignee: {}, byProject: {} };
+    const finished = finishedDays(audit);
+    const finishedOn = (sheet: string, recordId: string) => finished.get(`${sheet}\n${recordId}`) || null;
+
+    const items: ReportItem[] = tasks.flatMap(task => [
+        {
+            project: task.name, name: task.name, isJob: true, assignee: task.assignee, status: task.status, dueDate: task.dueDate,
+            finishedOn: finishedOn(HUB_SHEET_NAME, task.uid),
+        },
+        ...(subTasksByProject[task.name] || []).map(st => ({
+            project: task.name, name: st.name, isJob: false, assignee: st.assignee, status: st.status, dueDate: st.dueDate || null,
+            finishedOn: finishedOn(task.name, st.id),
+        })),
+    ]);
+
+    items.forEach(item => {
+        const due = isValidIsoDate(item.dueDate) ? item.dueDate : null;
+        const sections: (keyof ReportSection)[] = [];
+        if (isDone(item.status)) {
+            const day = item.finishedOn || due;
+            if (day && day >= weekStart && day <= today) sections.push('doneThisWeek');
+        } else {
+            if (due && due < today) sections.push('overdue');
+            if (due && due >= today && due <= nextWeekEnd) sections.push('dueNextWeek');
+            if (normalizeStatus(item.status) === 'Blocked') sections.push('blocked');
+        }
+        if (!sections.length) return;
+
+        const assignee = canonicalAssignee(roster, item.assignee) || UNASSIGNED;
+        const forAssignee = report.byAssignee[assignee] = report.byAssignee[assignee] || emptySection();
+        const forProject = report.byProject[item.project] = report.byProject[item.project] || emptySection();
+        sections.forEach(section => {
+            report[section].push(item);
+            forAssignee[section].push(item);
+            forProject[section].push(item);
+        });
+    });
+    return report;
+};
+
+export const REPORT_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        headline: { type: Type.STRING, description: 'One sentence on how the week went.' },
+        summary: { type: Type.STRING, description: 'A short paragraph for collaborators and funders.' },
+        highlights: { type: Type.ARRAY, items: { type: Type.STRING } },
+        risks: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Slipped, blocked or at-risk work.' },
+    },
+    required: ['headline', 'summary', 'highlights', 'risks'],
+};
+
+const describeItem = (item: ReportItem) =>
+    `${item.isJob ? `Job "${item.name}"` : `"${item.name}" (${item.project})`}, ${item.assignee || UNASSIGNED}, ${item.status}${item.dueDate ? `, due ${item.dueDate}` : ''}${item.finishedOn ? `, finished ${item.finishedOn}` : ''}`;
+
+const listItems = (items: ReportItem[]) => items.length ? items.map(item => `- ${describeItem(item)}`).join('\n') : '- none';
+
+export const buildReportPrompt = (data: WeeklyReportData) => `You are writing the weekly status update for TrashTV, a production company, for its collaborators and grant bodies. Write in a friendly, plain and honest tone. Only use the facts below; don't invent work. Tables of each assignee's and project's numbers go below your summary, so don't repeat them item by item.
+
+Week: ${data.weekStart} to ${data.today}.
+
+Done this week (with the day it was finished where known; the rest were marked done in the sheet and are due this week):
+${listItems(data.doneThisWeek)}
+
+Past due and not done:
+${listItems(data.overdue)}
+
+Blocked:
+${listItems(data.blocked)}
+
+Due in the next week (to ${data.nextWeekEnd}):
+${listItems(data.dueNextWeek)}`;
+
+const SECTION_TITLES: Record<keyof ReportSection, string> = {
+    doneThisWeek: 'Done this week',
+    overdue: 'Overdue',
+    blocked: 'Blocked',
+    dueNextWeek: 'Due next week',
+};
+
+export const SECTIONS = Object.keys(SECTION_TITLES) as (keyof ReportSection)[];
+
+export const sectionTitle = (section: keyof ReportSection) => SECTION_TITLES[section];
+
+/**
+ * How many items each assignee or project has in each section, as rows of a table headed by
+ * `label` and the section titles, sorted by name.
+ */
+const breakdownTable = (label: string, groups: Record<string, ReportSection>): string[][] => [
+    [label, ...SECTIONS.map(sectionTitle)],
+    ...Object.keys(groups)
+        .sort((a, b) => a.localeCompare(b))
+        .map(name => [name, ...SECTIONS.map(section => String(groups[name][section].length))]),
+];
+
+const BREAKDOWNS: [string, string, (data: WeeklyReportData) => Record<string, ReportSection>][] = [
+    ['By project', 'Project', data => data.byProject],
+    ['By assignee', 'Assignee', data => data.byAssignee],
+];
+
+export const reportBreakdowns = (data: WeeklyReportData) =>
+    BREAKDOWNS.map(([title, label, groups]) => ({ title, rows: breakdownTable(label, groups(data)) }));
+
+const markdownTable = ([header, ...rows]: string[][]) => [
+    `| ${header.map(escapeCell).join(' | ')} |`,
+    `|${header.map(() => '---').join('|')}|`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+];
+
+const escapeCell = (value: string) => (value || '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const reportTitle = (data: WeeklyReportData) => `Weekly Report ${data.today}`;
+
+export const reportToMarkdown = (data: WeeklyReportData, narrative: ReportNarrative) => {
+    const lines = [
+        `# ${reportTitle(data)}`,
+        '',
+        `_${formatDate(data.weekStart)} – ${formatDate(data.today)}_`,
+        '',
+        `**${narrative.headline}**`,
+        '',
+        narrative.summary,
+        '',
+    ];
+    if (narrative.highlights.length) {
+        lines.push('## Highlights', '', ...narrative.highlights.map(h => `- ${h}`), '');
+    }
+    if (narrative.risks.length) {
+        lines.push('## Risks', '', ...narrative.risks.map(r => `- ${r}`), '');
+    }
+    reportBreakdowns(data).forEach(({ title, rows }) => {
+        lines.push(`## ${title}`, '', ...(rows.length > 1 ? markdownTable(rows) : ['Nothing.']), '');
+    });
+    SECTIONS.forEach(section => {
+        const items = data[section];
+        lines.push(`## ${SECTION_TITLES[section]} (${items.length})`, '');
+        if (!items.length) {
+            lines.push('Nothing.', '');
+            return;
+        }
+        lines.push(
+            ...markdownTable([
+                ['Project', 'Item', 'Assignee', 'Status', 'Due'],
+                ...items.map(item => [item.project, item.isJob ? '(job)' : item.name, item.assignee || UNASSIGNED, item.status, item.dueDate ? formatDate(item.dueDate) : '']),
+            ]),
+            '',
+        );
+    });
+    return lines.join('\n');
+};
+
+// The same report laid out as rows for a sheet tab.
+export const reportToRows = (data: WeeklyReportData, narrative: ReportNarrative): string[][] => [
+    [reportTitle(data)],
+    [`${data.weekStart} to ${data.today}`],
+    [narrative.headline],
+    [narrative.summary],
+    [],
+    ...(narrative.highlights.length ? [['Highlights'], ...narrative.highlights.map(h => ['', h]), []] : []),
+    ...(narrative.risks.length ? [['Risks'], ...narrative.risks.map(r => ['', r]), []] : []),
+    ...reportBreakdowns(data).flatMap(({ title, rows }) => [[title], ...(rows.length > 1 ? rows.map(row => ['', ...row]) : []), []]),
+    ...SECTIONS.flatMap(section => [
+        [`${SECTION_TITLES[section]} (${data[section].length})`],
+        ...(data[section].length ? [['', 'Project', 'Item', 'Assignee', 'Status', 'Due Date']] : []),
+        ...data[section].map(item => ['', item.project, item.isJob ? '(job)' : item.name, item.assignee || UNASSIGNED, item.status, item.dueDate || '']),
+        [],
+    ]),
+];
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask, TeamMember, Grant, NewGrant, ProjectTemplate, AuditEntry } from '../types';
+import type { FieldSpec, TableKind } from './columns';
+
+// Reads and writes the Live Jobs list.
+export interface TaskRepository {
+    listTasks(): Promise<Task[]>;
+    // Adding a job also creates its project tab, and renaming one renames the tab with it. The
+    // job gets a new ID unless one is given; adding it again with the same ID adds nothing.
+    addTask(task: NewTask & { uid?: string }): Promise<void>;
+    updateTask(task: Task): Promise<void>;
+    // Removes the job from the list. Its project tab is kept.
+    deleteTask(task: Task): Promise<void>;
+}
+
+// Reads and writes the sub-tasks stored in each project's tab.
+export interface ProjectRepository {
+    listSubTasks(projectName: string): Promise<SubTask[]>;
+    // Loads several projects at once, keyed by project name. Projects without a tab are left out.
+    listSubTasksForProjects(projectNames: string[]): Promise<Record<string, SubTask[]>>;
+    // Sub-tasks get a new ID unless one is given, e.g. from an imported calendar event. Any
+    // whose ID is already in the tab are skipped.
+    addSubTasks(projectName: string, subTasks: (NewSubTask & { id?: string })[]): Promise<void>;
+    // Resolves with the sub-task as saved, carrying its new revision, or null when the edit was
+    // queued to be saved later and so has no saved row yet.
+    updateSubTask(projectName: string, subTask: SubTask, changes: Partial<NewSubTask>): Promise<SubTask | null>;
+    // Creates an empty project tab with the standard header row, unless one already exists.
+    createProject(projectName: string): Promise<void>;
+}
+
+// Reads the team roster stored with the workspace.
+export interface TeamRepository {
+    listTeam(): Promise<TeamMember[]>;
+}
+
+// Reads and writes the grant pipeline on the Grants tab.
+export interface GrantRepository {
+    listGrants(): Promise<Grant[]>;
+    // Creates the Grants tab first if there isn't one yet. The grant gets a new ID unless one
+    // is given; adding it again with the same ID adds nothing.
+    addGrant(grant: NewGrant & { id?: string }): Promise<void>;
+    updateGrant(grant: Grant): Promise<void>;
+}
+
+// Reads and writes the project templates saved on the Templates tab.
+export interface TemplateRepository {
+    // Resolves with none saved when there's no Templates tab yet.
+    listTemplates(): Promise<ProjectTemplate[]>;
+    // Creates the Templates tab first if there isn't one yet.
+    addTemplate(template: ProjectTemplate): Promise<void>;
+}
+
+// Keeps generated reports alongside the workspace's data.
+export interface ReportRepository {
+    // Writes the rows to a new tab named after `title`, numbered if that name is taken.
+    // Resolves with the name the tab was given.
+    saveReport(title: string, rows: string[][]): Promise<string>;
+}
+
+// The log of every write made through the app, kept in a hidden tab.
+export interface AuditRepository {
+    // Creates the audit tab first if there isn't one yet.
+    appendAudit(entries: AuditEntry[]): Promise<void>;
+    // Oldest first. Resolves with nothing logged when there's no audit tab yet.
+    listAudit(): Promise<AuditEntry[]>;
+}
+
+export type Repository = TaskRepository & ProjectRepository & TeamRepository & GrantRepository & TemplateRepository & ReportRepository & AuditRepository;
+
+export type StorageBackend = 'sheets' | 'local';
+
+// Thrown when the tab backing the Live Jobs list or a project does not exist.
+export class SheetNotFoundError extends Error {
+    sheetName: string;
+
+    constructor(sheetName: string) {
+        super(`Sheet "${sheetName}" not found`);
+        this.name = 'SheetNotFoundError';
+        this.sheetName = sheetName;
+    }
+}
+
+// Thrown when renaming a job would give its tab the name of a tab that already exists.
+export class SheetExistsError extends Error {
+    sheetName: string;
+
+    constructor(sheetName: string) {
+        super(`There is already a tab named "${sheetName}".`);
+        this.name = 'SheetExistsError';
+        this.sheetName = sheetName;
+    }
+}
+
+// Thrown when a job's row no longer holds that job, e.g. because rows were sorted in the sheet,
+// so acting on it by row number would hit the wrong job.
+export class TaskConflictError extends Error {
+    taskId: number;
+
+    constructor(taskId: number, message: string) {
+        super(message);
+        this.name = 'TaskConflictError';
+        this.taskId = taskId;
+    }
+}
+
+// Thrown when a sub-task's row was changed or removed since it was loaded, so saving would
+// overwrite someone else's edit.
+export class SubTaskConflictError extends Error {
+    subTaskId: string;
+
+    constructor(subTaskId: string, message: string) {
+        super(message);
+        this.name = 'SubTaskConflictError';
+        this.subTaskId = subTaskId;
+    }
+}
+
+// Thrown when a grant's row was removed from the sheet since it was loaded.
+export class GrantConflictError extends Error {
+    grantId: string;
+
+    constructor(grantId: string, message: string) {
+        super(message);
+        this.name = 'GrantConflictError';
+        this.grantId = grantId;
+    }
+}
+
+export const createSubTaskId = (): string => crypto.randomUUID();
+
+export const createTaskId = (): string => crypto.randomUUID();
+
+export const createGrantId = (): string => crypto.randomUUID();
+
+// Thrown when a tab's header row has no column for a field the app can't work without.
+export class MissingColumnsError extends Error {
+    sheetName: string;
+    kind: TableKind;
+    missing: FieldSpec[];
+    headers: string[];
+
+    constructor(sheetName: string, kind: TableKind, missing: FieldSpec[], headers: string[]) {
+        super(`The "${sheetName}" tab has no ${missing.map(spec => `"${spec.label}"`).join(' or ')} column.`);
+        this.name = 'MissingColumnsError';
+        this.sheetName = sheetName;
+        this.kind = kind;
+        this.missing = missing;
+        this.headers = headers;
+    }
+}
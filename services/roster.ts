@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TeamMember } from '../types';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Every spelling that should resolve to this member.
+const namesFor = (member: TeamMember) => [
+    member.name,
+    member.email,
+    member.email.split('@')[0],
+    member.name.split(/\s+/)[0], // First name
+    ...member.aliases,
+].filter(Boolean).map(normalize);
+
+/**
+ * Finds the roster member an assignee refers to, whether it was typed as a display name, an
+ * email, a first name or one of the member's aliases. Returns null when nobody matches, or
+ * when the value is ambiguous (e.g. a first name two members share).
+ */
+export const resolveAssignee = (roster: TeamMember[], value: string | null | undefined): TeamMember | null => {
+    const key = normalize(value || '');
+    if (!key) return null;
+    const matches = roster.filter(member => namesFor(member).includes(key));
+    return matches.length === 1 ? matches[0] : null;
+};
+
+// The value to store for an assignee: the member's display name when they can be resolved,
+// otherwise what was entered, so it can be flagged rather than lost.
+export const canonicalAssignee = (roster: TeamMember[], value: string | null | undefined) =>
+    resolveAssignee(roster, value)?.name || (value || '').trim();
+
+// True for an assignee that is set but doesn't match anyone on the roster.
+export const isUnknownAssignee = (roster: TeamMember[], value: string | null | undefined) =>
+    roster.length > 0 && Boolean((value || '').trim()) && !resolveAssignee(roster, value);
@@ -0,0 +1,605 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Task, NewTask, SubTask, NewSubTask, TeamMember, Grant, NewGrant, ProjectTemplate, AuditEntry } from '../types';
+import { SheetNotFoundError, SheetExistsError, TaskConflictError, SubTaskConflictError, MissingColumnsError, GrantConflictError, createSubTaskId, createTaskId, createGrantId, type Repository } from './repository';
+import { parseAmount, parseDateList, normalizeStage } from './grants';
+import { DEFAULT_ANCHOR } from './templates';
+import { TABLE_FIELDS, mapColumns, columnLetter, type ColumnMap, type TableKind } from './columns';
+
+// The master list of jobs lives in its own tab, one job per row. Columns are found by the
+// header in row 1 (see TABLE_FIELDS in ./columns for the names recognised).
+export const HUB_SHEET_NAME = 'Hub';
+
+// The team roster, one member per row.
+export const TEAM_SHEET_NAME = 'Team';
+
+// The grant pipeline, one grant per row.
+export const GRANTS_SHEET_NAME = 'Grants';
+
+// Project templates, one step per row, grouped by the template's name.
+export const TEMPLATES_SHEET_NAME = 'Templates';
+
+// Every write made through the app, one changed field per row. Hidden, as it's for the app.
+export const AUDIT_SHEET_NAME = 'Audit Log';
+
+// Project tabs hold one sub-task per row, each with a persistent ID column the app fills in.
+
+// The fields a sub-task's revision covers, i.e. everything but its ID.
+const SUBTASK_FIELDS = ['name', 'assignee', 'status', 'notes', 'dueDate', 'recurrence', 'dependsOn'];
+
+// A tab's rows along with where each field lives. `rows[i]` is sheet row i + 2.
+interface Table {
+    header: string[];
+    map: ColumnMap;
+    rows: string[][];
+}
+
+const cell = (row: string[], map: ColumnMap, field: string) =>
+    map[field] === undefined ? '' : row[map[field]] || '';
+
+// A value to enter as typed but keep as plain text, as the sheet does for anything typed after
+// an apostrophe, rather than read as a number, date or formula. Used for IDs.
+const asText = (value: string) => `'${value}`;
+
+// Lays values out across a full-width row, leaving columns the app doesn't know about blank.
+const toRow = (map: ColumnMap, fields: Record<string, string>) => {
+    const row = Array(Math.max(-1, ...Object.values(map)) + 1).fill('');
+    Object.entries(fields).forEach(([field, value]) => {
+        if (map[field] !== undefined) row[map[field]] = value;
+    });
+    return row;
+};
+
+const rowToTask = (row: string[], index: number, map: ColumnMap): Task => ({
+    id: index + 2, // Row number in the sheet
+    uid: cell(row, map, 'uid'),
+    name: cell(row, map, 'name'),
+    priority: cell(row, map, 'priority') || 'Low Priority',
+    assignee: cell(row, map, 'assignee'),
+    status: cell(row, map, 'status') || 'Todo',
+    startDate: cell(row, map, 'startDate') || null,
+    dueDate: cell(row, map, 'dueDate') || null,
+    notes: cell(row, map, 'notes') || null,
+    recurrence: cell(row, map, 'recurrence') || null,
+});
+
+const taskFields = (task: NewTask): Record<string, string> => ({
+    name: task.name || '',
+    priority: task.priority || '',
+    assignee: task.assignee || '',
+    status: task.status || '',
+    startDate: task.startDate || '',
+    dueDate: task.dueDate || '',
+    notes: task.notes || '',
+    recurrence: task.recurrence || '',
+});
+
+// The sub-task's own cells as read, joined so a change to any of them is noticed.
+const rowRevision = (row: string[], map: ColumnMap) =>
+    SUBTASK_FIELDS.map(field => cell(row, map, field)).join('\u001f');
+
+const rowToSubTask = (row: string[], map: ColumnMap): SubTask => ({
+    id: cell(row, map, 'id'),
+    name: cell(row, map, 'name'),
+    assignee: cell(row, map, 'assignee'),
+    status: cell(row, map, 'status') || 'Todo',
+    notes: cell(row, map, 'notes'),
+    dueDate: cell(row, map, 'dueDate'),
+    recurrence: cell(row, map, 'recurrence'),
+    dependsOn: cell(row, map, 'dependsOn').split(',').map(id => id.trim()).filter(Boolean),
+    revision: rowRevision(row, map),
+});
+
+const subTaskFields = (subTask: NewSubTask & { id?: string }): Record<string, string> => ({
+    name: subTask.name || '',
+    assignee: subTask.assignee || '',
+    status: subTask.status || 'Todo',
+    notes: subTask.notes || '',
+    dueDate: subTask.dueDate || '',
+    recurrence: subTask.recurrence || '',
+    dependsOn: (subTask.dependsOn || []).join(', '),
+    id: subTask.id || createSubTaskId(),
+});
+
+const rowToTeamMember = (row: string[], map: ColumnMap): TeamMember => ({
+    name: cell(row, map, 'name').trim(),
+    email: cell(row, map, 'email').trim(),
+    aliases: cell(row, map, 'aliases').split(',').map(alias => alias.trim()).filter(Boolean),
+    role: cell(row, map, 'role').trim(),
+});
+
+const rowToGrant = (row: string[], map: ColumnMap): Grant => ({
+    id: cell(row, map, 'id'),
+    name: cell(row, map, 'name'),
+    funder: cell(row, map, 'funder'),
+    owner: cell(row, map, 'owner'),
+    amountRequested: parseAmount(cell(row, map, 'amountRequested')),
+    amountAwarded: parseAmount(cell(row, map, 'amountAwarded')),
+    stage: normalizeStage(cell(row, map, 'stage')),
+    submissionDeadline: cell(row, map, 'submissionDeadline') || null,
+    reportingDeadlines: parseDateList(cell(row, map, 'reportingDeadlines')),
+    contact: cell(row, map, 'contact'),
+    notes: cell(row, map, 'notes') || null,
+});
+
+const rowToAuditEntry = (row: string[], map: ColumnMap): AuditEntry => ({
+    timestamp: cell(row, map, 'timestamp'),
+    user: cell(row, map, 'user'),
+    sheet: cell(row, map, 'sheet'),
+    recordId: cell(row, map, 'recordId'),
+    record: cell(row, map, 'record'),
+    field: cell(row, map, 'field'),
+    oldValue: cell(row, map, 'oldValue'),
+    newValue: cell(row, map, 'newValue'),
+    changeId: cell(row, map, 'changeId'),
+});
+
+const grantFields = (grant: NewGrant): Record<string, string> => ({
+    name: grant.name || '',
+    funder: grant.funder || '',
+    owner: grant.owner || '',
+    amountRequested: grant.amountRequested === null ? '' : String(grant.amountRequested),
+    amountAwarded: grant.amountAwarded === null ? '' : String(grant.amountAwarded),
+    stage: grant.stage || '',
+    submissionDeadline: grant.submissionDeadline || '',
+    reportingDeadlines: grant.reportingDeadlines.join(', '),
+    contact: grant.contact || '',
+    notes: grant.notes || '',
+});
+
+// Steps are grouped by template name in row order. A template counts from the first anchor
+// any of its rows names.
+const rowsToTemplates = (rows: string[][], map: ColumnMap): ProjectTemplate[] => {
+    const templates = new Map<string, ProjectTemplate>();
+    rows.forEach(row => {
+        const name = cell(row, map, 'template').trim();
+        const step = cell(row, map, 'name').trim();
+        if (!name || !step) return;
+        const template = templates.get(name) || { name, anchor: '', steps: [] };
+        const offset = cell(row, map, 'offsetDays').trim();
+        template.anchor = template.anchor || cell(row, map, 'anchor').trim();
+        template.steps.push({
+            name: step,
+            role: cell(row, map, 'role').trim(),
+            offsetDays: offset && !isNaN(Number(offset)) ? Math.round(Number(offset)) : null,
+            notes: cell(row, map, 'notes'),
+        });
+        templates.set(name, template);
+    });
+    return [...templates.values()].map(template => ({ ...template, anchor: template.anchor || DEFAULT_ANCHOR }));
+};
+
+const templateRows = (template: ProjectTemplate): Record<string, string>[] =>
+    template.steps.map(step => ({
+        template: template.name,
+        name: step.name,
+        role: step.role || '',
+        offsetDays: step.offsetDays === null ? '' : String(step.offsetDays),
+        anchor: template.anchor,
+        notes: step.notes || '',
+    }));
+
+const toTable = (sheetName: string, kind: TableKind, rows: string[][]): Table => {
+    const header = rows[0] || [];
+    const { map, missing } = mapColumns(kind, header);
+    if (missing.length) {
+        throw new MissingColumnsError(sheetName, kind, missing, header);
+    }
+    return { header, map, rows: rows.slice(1) };
+};
+
+// Header cells for any of `fields` the tab doesn't have a column for yet, placed after the
+// last existing column. The table is updated to include them.
+const addColumns = (sheetName: string, kind: TableKind, table: Table, fields: string[]) => {
+    const added = [];
+    fields.forEach(field => {
+        if (table.map[field] !== undefined) return;
+        const index = table.header.length;
+        const label = TABLE_FIELDS[kind].find(spec => spec.field === field)?.label || field;
+        table.header = [...table.header, label];
+        table.map = { ...table.map, [field]: index };
+        added.push({ range: `'${sheetName}'!${columnLetter(index)}1`, value: label });
+    });
+    return added;
+};
+
+// The Hub's jobs, plus the cells to write so that every one of them has an ID, as for sub-tasks
+// below.
+const readTasks = (table: Table) => {
+    const named = table.rows.map((row, index) => ({ row, index })).filter(({ row }) => cell(row, table.map, 'name'));
+    const needIds = named.filter(({ row }) => !cell(row, table.map, 'uid'));
+    const cells = [];
+    if (needIds.length) {
+        cells.push(...addColumns(HUB_SHEET_NAME, 'task', table, ['uid']));
+        const idColumn = columnLetter(table.map.uid);
+        needIds.forEach(({ row, index }) => {
+            row[table.map.uid] = createTaskId();
+            cells.push({ range: `'${HUB_SHEET_NAME}'!${idColumn}${index + 2}`, value: row[table.map.uid] });
+        });
+    }
+    return { tasks: named.map(({ row, index }) => rowToTask(row, index, table.map)), cells };
+};
+
+// Where a job's row is now, found by its ID since rows may have been deleted, sorted or
+// inserted since it was loaded.
+const findTaskRow = (table: Table, task: Task) => {
+    const index = task.uid && table.map.uid !== undefined
+        ? table.rows.findIndex(row => cell(row, table.map, 'uid') === task.uid)
+        : -1;
+    if (index === -1) {
+        throw new TaskConflictError(task.id, `"${task.name}" was removed from the sheet or has moved since it was loaded.`);
+    }
+    return index;
+};
+
+// The tab's sub-tasks, plus the cells to write so that every one of them has an ID. Rows
+// added by hand in the sheet have none yet, and need one before anything can be edited.
+const readSubTasks = (projectName: string, table: Table) => {
+    const named = table.rows.map((row, index) => ({ row, index })).filter(({ row }) => cell(row, table.map, 'name'));
+    const needIds = named.filter(({ row }) => !cell(row, table.map, 'id'));
+    const cells = [];
+    if (needIds.length) {
+        cells.push(...addColumns(projectName, 'subTask', table, ['id']));
+        const idColumn = columnLetter(table.map.id);
+        needIds.forEach(({ row, index }) => {
+            row[table.map.id] = createSubTaskId();
+            cells.push({ range: `'${projectName}'!${idColumn}${index + 2}`, value: row[table.map.id] });
+        });
+    }
+    return { subTasks: named.map(({ row }) => rowToSubTask(row, table.map)), cells };
+};
+
+// The tab's grants, plus the cells to write so that every one of them has an ID, as for
+// sub-tasks.
+const readGrants = (table: Table) => {
+    const named = table.rows.map((row, index) => ({ row, index })).filter(({ row }) => cell(row, table.map, 'name'));
+    const needIds = named.filter(({ row }) => !cell(row, table.map, 'id'));
+    const cells = [];
+    if (needIds.length) {
+        cells.push(...addColumns(GRANTS_SHEET_NAME, 'grant', table, ['id']));
+        const idColumn = columnLetter(table.map.id);
+        needIds.forEach(({ row, index }) => {
+            row[table.map.id] = createGrantId();
+            cells.push({ range: `'${GRANTS_SHEET_NAME}'!${idColumn}${index + 2}`, value: row[table.map.id] });
+        });
+    }
+    return { grants: named.map(({ row }) => rowToGrant(row, table.map)), cells };
+};
+
+const isMissingSheetError = (err) =>
+    err?.result?.error?.code === 400 || err?.result?.error?.message?.includes('Unable to parse range');
+
+export const createSheetsRepository = (spreadsheetId: string): Repository => {
+    const values = () => window.gapi.client.sheets.spreadsheets.values;
+
+    const getRows = async (sheetName: string, range: string): Promise<string[][]> => {
+        try {
+            const response = await values().get({
+                spreadsheetId,
+                range: `'${sheetName}'!${range}`,
+            });
+            return response.result.values || [];
+        } catch (err) {
+            if (isMissingSheetError(err)) {
+                throw new SheetNotFoundError(sheetName);
+            }
+            throw err;
+        }
+    };
+
+    const appendRows = (sheetName: string, range: string, rows: string[][], valueInputOption = 'USER_ENTERED') =>
+        values().append({
+            spreadsheetId,
+            range: `'${sheetName}'!${range}`,
+            valueInputOption,
+            insertDataOption: 'INSERT_ROWS',
+            resource: {
+                values: rows,
+            },
+        });
+
+    // Writes single cells, keyed by A1 range. Resolves with the values as the sheet stored them.
+    const updateCells = async (cells: { range: string; value: string }[], valueInputOption = 'USER_ENTERED') => {
+        if (!cells.length) return [];
+        const response = await values().batchUpdate({
+            spreadsheetId,
+            resource: {
+                valueInputOption,
+                includeValuesInResponse: true,
+                data: cells.map(c => ({ range: c.range, values: [[c.value]] })),
+            },
+        });
+        return cells.map((c, i) => response.result.responses?.[i]?.updatedData?.values?.[0]?.[0] ?? c.value);
+    };
+
+    const readTable = async (sheetName: string, kind: TableKind) =>
+        toTable(sheetName, kind, await getRows(sheetName, 'A1:ZZ'));
+
+    const ensureColumns = (sheetName: string, kind: TableKind, table: Table, fields: string[]) =>
+        updateCells(addColumns(sheetName, kind, table, fields), 'RAW');
+
+    // The ID and title of every tab in the spreadsheet.
+    const listSheets = async (): Promise<{ sheetId: number; title: string }[]> => {
+        const response = await window.gapi.client.sheets.spreadsheets.get({
+            spreadsheetId,
+            fields: 'sheets.properties(sheetId,title)',
+        });
+        return (response.result.sheets || []).map(sheet => sheet.properties);
+    };
+
+    const updateSpreadsheet = (requests: object[]) =>
+        window.gapi.client.sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            resource: { requests },
+        });
+
+    // Adds a tab with the standard header row for its kind, unless it already exists.
+    // Creating a tab that's already there, e.g. when a job whose tab was added is saved again,
+    // only fills in its header if the first try didn't get that far. The sheet treats tab names
+    // that differ only in case as the same.
+    const createTab = async (sheetName: string, kind: TableKind, { hidden = false } = {}) => {
+        const existing = (await listSheets()).find(sheet => sheet.title.toLowerCase() === sheetName.toLowerCase());
+        if (!existing) {
+            await updateSpreadsheet([{ addSheet: { properties: { title: sheetName, hidden } } }]);
+        } else {
+            const header = await values().get({ spreadsheetId, range: `'${existing.title}'!1:1` });
+            if (header.result.values?.[0]?.some(Boolean)) return;
+        }
+        await values().update({
+            spreadsheetId,
+            range: `'${existing?.title ?? sheetName}'!A1`,
+            valueInputOption: 'RAW',
+            resource: {
+                values: [TABLE_FIELDS[kind].map(spec => spec.label)],
+            },
+        });
+    };
+
+    const createProjectTab = (projectName: string) => createTab(projectName, 'subTask');
+
+    // Tab names are unique regardless of case, so a job can be re-cased but not renamed onto
+    // another project's tab. A job without a tab has nothing to rename.
+    const renameProjectTab = async (oldName: string, newName: string) => {
+        if (oldName === newName) return;
+        const sheets = await listSheets();
+        const tab = sheets.find(sheet => sheet.title === oldName);
+        if (!tab) return;
+        if (sheets.some(sheet => sheet.sheetId !== tab.sheetId && sheet.title.toLowerCase() === newName.toLowerCase())) {
+            throw new SheetExistsError(newName);
+        }
+        await updateSpreadsheet([{
+            updateSheetProperties: {
+                properties: { sheetId: tab.sheetId, title: newName },
+                fields: 'title',
+            },
+        }]);
+    };
+
+    const lastColumn = (table: Table) => columnLetter(Math.max(0, ...Object.values(table.map)));
+
+    /**
+     * Appends rows that each carry an ID in `idField`, in the one write, skipping any whose ID
+     * is already in the tab (added by an earlier try of the same write). The rest of each row
+     * is entered as if typed, so dates and numbers are read as such.
+     */
+    const appendRowsWithIds = async (sheetName: string, table: Table, idField: string, rows: Record<string, string>[]) => {
+        const existing = new Set(table.rows.map(row => cell(row, table.map, idField)));
+        const added = rows.filter(fields => !existing.has(fields[idField]));
+        if (!added.length) return;
+        await appendRows(sheetName, `A:${lastColumn(table)}`, added.map(fields => toRow(table.map, { ...fields, [idField]: asText(fields[idField]) })));
+    };
+
+    // Checked once per session, since the log is written to after every edit.
+    let auditTabReady: Promise<void> | null = null;
+
+    return {
+        async listTasks() {
+            const table = await readTable(HUB_SHEET_NAME, 'task');
+            const { tasks, cells } = readTasks(table);
+            await updateCells(cells, 'RAW');
+            return tasks;
+        },
+
+        async addTask(task) {
+            const table = await readTable(HUB_SHEET_NAME, 'task');
+            const fields = { ...taskFields(task), uid: task.uid || createTaskId() };
+            await ensureColumns(HUB_SHEET_NAME, 'task', table, Object.keys(fields).filter(f => fields[f]));
+            await appendRowsWithIds(HUB_SHEET_NAME, table, 'uid', [fields]);
+            await createProjectTab(task.name);
+        },
+
+        async updateTask(task) {
+            const table = await readTable(HUB_SHEET_NAME, 'task');
+            const rowNumber = findTaskRow(table, task) + 2;
+            const fields = taskFields(task);
+            // Only a change to this job's own name renames a tab; other edits leave tabs alone.
+            const oldName = cell(table.rows[rowNumber - 2], table.map, 'name');
+            if (oldName && oldName !== task.name) {
+                await renameProjectTab(oldName, task.name);
+            }
+            await ensureColumns(HUB_SHEET_NAME, 'task', table, Object.keys(fields).filter(f => fields[f]));
+            await updateCells(Object.keys(fields)
+                .filter(field => table.map[field] !== undefined)
+                .map(field => ({ range: `'${HUB_SHEET_NAME}'!${columnLetter(table.map[field])}${rowNumber}`, value: fields[field] })));
+        },
+
+        async deleteTask(task) {
+            const table = await readTable(HUB_SHEET_NAME, 'task');
+            const index = findTaskRow(table, task) + 1; // Zero-based, counting the header
+            const hub = (await listSheets()).find(sheet => sheet.title === HUB_SHEET_NAME);
+            await updateSpreadsheet([{
+                deleteDimension: {
+                    range: { sheetId: hub.sheetId, dimension: 'ROWS', startIndex: index, endIndex: index + 1 },
+                },
+            }]);
+        },
+
+        async listTeam() {
+            const { map, rows } = await readTable(TEAM_SHEET_NAME, 'team');
+            return rows.map(row => rowToTeamMember(row, map)).filter(member => member.name);
+        },
+
+        async listSubTasks(projectName) {
+            const table = await readTable(projectName, 'subTask');
+            const { subTasks, cells } = readSubTasks(projectName, table);
+            await updateCells(cells, 'RAW');
+            return subTasks;
+        },
+
+        async listSubTasksForProjects(projectNames) {
+            // batchGet fails outright if any range names a missing tab, so only ask for tabs
+            // that exist.
+            const titles = new Set((await listSheets()).map(sheet => sheet.title));
+            const names = [...new Set(projectNames)].filter(name => titles.has(name));
+            if (!names.length) return {};
+
+            const response = await values().batchGet({
+                spreadsheetId,
+                ranges: names.map(name => `'${name}'!A1:ZZ`),
+            });
+            const byProject: Record<string, SubTask[]> = {};
+            const cells = [];
+            names.forEach((name, index) => {
+                try {
+                    const table = toTable(name, 'subTask', response.result.valueRanges?.[index]?.values || []);
+                    const result = readSubTasks(name, table);
+                    byProject[name] = result.subTasks;
+                    cells.push(...result.cells);
+                } catch (err) {
+                    // Tabs without the columns a project needs are left out, like missing tabs.
+                    if (!(err instanceof MissingColumnsError)) throw err;
+                }
+            });
+            await updateCells(cells, 'RAW');
+            return byProject;
+        },
+
+        async addSubTasks(projectName, subTasks) {
+            const table = await readTable(projectName, 'subTask');
+            const rows = subTasks.map(subTaskFields);
+            const used = Object.keys(rows[0] || {}).filter(field => rows.some(fields => fields[field]));
+            await ensureColumns(projectName, 'subTask', table, used);
+            await appendRowsWithIds(projectName, table, 'id', rows);
+        },
+
+        async updateSubTask(projectName, subTask, changes) {
+            // Find the row by ID rather than position, since rows may have been inserted or sorted.
+            const table = await readTable(projectName, 'subTask');
+            const index = table.map.id === undefined ? -1 : table.rows.findIndex(row => cell(row, table.map, 'id') === subTask.id);
+            if (index === -1) {
+                throw new SubTaskConflictError(subTask.id, `"${subTask.name}" was removed from the sheet.`);
+            }
+            const row = table.rows[index];
+            if (rowRevision(row, table.map) !== subTask.revision) {
+                throw new SubTaskConflictError(subTask.id, `"${subTask.name}" was changed in the sheet since it was loaded.`);
+            }
+
+            const fields = Object.keys(changes);
+            await ensureColumns(projectName, 'subTask', table, fields);
+            // Lists are written comma-separated, as the sheet shows them.
+            const saved = await updateCells(fields.map(field => ({
+                range: `'${projectName}'!${columnLetter(table.map[field])}${index + 2}`,
+                value: Array.isArray(changes[field]) ? changes[field].join(', ') : changes[field],
+            })));
+
+            // The sheet may reformat what was entered (dates especially), so track the values
+            // it reports back rather than the ones sent.
+            const savedRow = [...row];
+            fields.forEach((field, i) => {
+                savedRow[table.map[field]] = saved[i];
+            });
+            return { ...subTask, ...changes, revision: rowRevision(savedRow, table.map) };
+        },
+
+        createProject: createProjectTab,
+
+        async listGrants() {
+            const table = await readTable(GRANTS_SHEET_NAME, 'grant');
+            const { grants, cells } = readGrants(table);
+            await updateCells(cells, 'RAW');
+            return grants;
+        },
+
+        async addGrant(grant) {
+            await createTab(GRANTS_SHEET_NAME, 'grant');
+            const table = await readTable(GRANTS_SHEET_NAME, 'grant');
+            const fields = { ...grantFields(grant), id: grant.id || createGrantId() };
+            await ensureColumns(GRANTS_SHEET_NAME, 'grant', table, Object.keys(fields).filter(f => fields[f]));
+            await appendRowsWithIds(GRANTS_SHEET_NAME, table, 'id', [fields]);
+        },
+
+        async updateGrant(grant) {
+            // Found by ID, since rows may have been inserted, sorted or deleted since it was loaded.
+            const table = await readTable(GRANTS_SHEET_NAME, 'grant');
+            const index = table.map.id === undefined ? -1 : table.rows.findIndex(row => cell(row, table.map, 'id') === grant.id);
+            if (index === -1) {
+                throw new GrantConflictError(grant.id, `"${grant.name}" was removed from the sheet.`);
+            }
+            const fields = grantFields(grant);
+            await ensureColumns(GRANTS_SHEET_NAME, 'grant', table, Object.keys(fields).filter(f => fields[f]));
+            await updateCells(Object.keys(fields)
+                .filter(field => table.map[field] !== undefined)
+                .map(field => ({ range: `'${GRANTS_SHEET_NAME}'!${columnLetter(table.map[field])}${index + 2}`, value: fields[field] })));
+        },
+
+        async listTemplates() {
+            try {
+                const { map, rows } = await readTable(TEMPLATES_SHEET_NAME, 'template');
+                return rowsToTemplates(rows, map);
+            } catch (err) {
+                if (err instanceof SheetNotFoundError) return [];
+                throw err;
+            }
+        },
+
+        async addTemplate(template) {
+            await createTab(TEMPLATES_SHEET_NAME, 'template');
+            const table = await readTable(TEMPLATES_SHEET_NAME, 'template');
+            const rows = templateRows(template);
+            const used = Object.keys(rows[0] || {}).filter(field => rows.some(fields => fields[field]));
+            await ensureColumns(TEMPLATES_SHEET_NAME, 'template', table, used);
+            await appendRows(TEMPLATES_SHEET_NAME, `A:${lastColumn(table)}`, rows.map(fields => toRow(table.map, fields)));
+        },
+
+        async appendAudit(entries) {
+            if (!entries.length) return;
+            auditTabReady = auditTabReady || createTab(AUDIT_SHEET_NAME, 'audit', { hidden: true }).catch(err => {
+                auditTabReady = null;
+                throw err;
+            });
+            await auditTabReady;
+            const table = await readTable(AUDIT_SHEET_NAME, 'audit');
+            await ensureColumns(AUDIT_SHEET_NAME, 'audit', table, TABLE_FIELDS.audit.map(spec => spec.field));
+            // Logged values are kept exactly as they were, not parsed as dates or formulas.
+            await appendRows(AUDIT_SHEET_NAME, `A:${lastColumn(table)}`, entries.map(entry => toRow(table.map, { ...entry })), 'RAW');
+        },
+
+        async listAudit() {
+            try {
+                const { map, rows } = await readTable(AUDIT_SHEET_NAME, 'audit');
+                return rows.map(row => rowToAuditEntry(row, map)).filter(entry => entry.timestamp);
+            } catch (err) {
+                if (err instanceof SheetNotFoundError) return [];
+                throw err;
+            }
+        },
+
+        async saveReport(title, rows) {
+            const titles = (await listSheets()).map(sheet => sheet.title.toLowerCase());
+            let name = title;
+            for (let n = 2; titles.includes(name.toLowerCase()); n++) {
+                name = `${title} (${n})`;
+            }
+            await updateSpreadsheet([{ addSheet: { properties: { title: name } } }]);
+            await values().update({
+                spreadsheetId,
+                range: `'${name}'!A1`,
+                valueInputOption: 'RAW',
+                resource: { values: rows },
+            });
+            return name;
+        },
+    };
+};
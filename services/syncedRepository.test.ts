@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Repository } from './repository';
+import { SubTaskConflictError } from './repository';
+import { createLocalRepository } from './localRepository';
+import { createOfflineQueue } from './offlineQueue';
+import { createSyncedRepository } from './syncedRepository';
+import { newTask, newSubTask } from './fixtures';
+
+const PROJECT = 'Chai x Pasty GRWM';
+
+describe('createSyncedRepository', () => {
+    const network = { onLine: true };
+    let inner: Repository;
+
+    beforeEach(() => {
+        network.onLine = true;
+        vi.stubGlobal('navigator', network);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        inner = createLocalRepository(null);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('queues writes made offline, shows them in listings and replays them in order', async () => {
+        const queue = createOfflineQueue();
+        const repository = createSyncedRepository(inner, queue);
+        const [task] = await repository.listTasks();
+
+        network.onLine = false;
+        await repository.updateTask({ ...task, status: 'Blocked' });
+        await repository.updateTask({ ...task, status: 'Done' });
+        expect((await inner.listTasks())[0].status).toBe(task.status);
+        expect((await repository.listTasks())[0].status).toBe('Done');
+
+        network.onLine = true;
+        await repository.replay();
+        expect(await queue.list()).toEqual([]);
+        expect((await inner.listTasks())[0].status).toBe('Done');
+    });
+
+    it('holds later writes back behind one that failed', async () => {
+        const queue = createOfflineQueue();
+        const failing = { ...inner, updateTask: vi.fn().mockRejectedValue(new Error('Quota exceeded')) };
+        const repository = createSyncedRepository(failing, queue);
+        const [task] = await repository.listTasks();
+
+        await repository.updateTask({ ...task, status: 'Blocked' });
+        await repository.addTask(newTask('Sizzle reel'));
+        expect((await queue.list()).map(e => [e.write.kind, e.status])).toEqual([['updateTask', 'failed'], ['addTask', 'pending']]);
+        expect((await inner.listTasks()).some(t => t.name === 'Sizzle reel')).toBe(false);
+
+        const [failed] = await queue.list();
+        await repository.discard(failed.id);
+        await repository.replay();
+        expect((await inner.listTasks()).some(t => t.name === 'Sizzle reel')).toBe(true);
+    });
+
+    it('resolves a sub-task edit with nothing while it\'s queued', async () => {
+        const repository = createSyncedRepository(inner, createOfflineQueue());
+        const [, cut] = await repository.listSubTasks(PROJECT);
+        network.onLine = false;
+        expect(await repository.updateSubTask(PROJECT, cut, { status: 'In Review' })).toBeNull();
+        expect((await repository.listSubTasks(PROJECT))[1].status).toBe('In Review');
+    });
+
+    it('resolves an edit queued behind others with the row as saved, so the next edit doesn\'t conflict', async () => {
+        const queue = createOfflineQueue();
+        const repository = createSyncedRepository(inner, queue);
+        const [task] = await repository.listTasks();
+        const [, cut] = await repository.listSubTasks(PROJECT);
+
+        network.onLine = false;
+        await repository.updateTask({ ...task, notes: 'Offline' });
+        network.onLine = true;
+        const saved = await repository.updateSubTask(PROJECT, cut, { status: 'In Review' });
+        expect(saved.revision).not.toBe(cut.revision);
+        expect(await queue.list()).toEqual([]);
+
+        await expect(repository.updateSubTask(PROJECT, saved, { status: 'Done' })).resolves.toMatchObject({ status: 'Done' });
+        await expect(repository.updateSubTask(PROJECT, cut, { status: 'Done' })).rejects.toBeInstanceOf(SubTaskConflictError);
+    });
+
+    it('doesn\'t add a record twice when a write that already reached the sheet is replayed', async () => {
+        const queue = createOfflineQueue();
+        const repository = createSyncedRepository(inner, queue);
+        network.onLine = false;
+        await repository.addTask(newTask('Sizzle reel'));
+        await repository.addSubTasks(PROJECT, [newSubTask('Pick clips')]);
+        const [addTask, addSubTasks] = (await queue.list()).map(entry => entry.write);
+        if (addTask.kind !== 'addTask' || addSubTasks.kind !== 'addSubTasks') throw new Error('Expected queued adds');
+        expect(addTask.task.uid).toBeTruthy();
+        expect(addSubTasks.subTasks[0].id).toBeTruthy();
+
+        // As if the first try saved the rows but never heard back.
+        await inner.addTask(addTask.task);
+        await inner.addSubTasks(PROJECT, addSubTasks.subTasks);
+        network.onLine = true;
+        await repository.replay();
+        expect((await inner.listTasks()).filter(t => t.name === 'Sizzle reel')).toHaveLength(1);
+        expect((await inner.listSubTasks(PROJECT)).filter(st => st.name === 'Pick clips')).toHaveLength(1);
+    });
+
+    it('replays writes queued while a replay is running', async () => {
+        const queue = createOfflineQueue();
+        const repository = createSyncedRepository(inner, queue);
+        network.onLine = false;
+        await repository.addTask(newTask('First'));
+        network.onLine = true;
+
+        const replaying = repository.replay();
+        await queue.add({ write: { kind: 'addTask', task: newTask('Second') }, status: 'pending', error: null, createdAt: '' });
+        await replaying;
+        expect((await inner.listTasks()).map(t => t.name).slice(-2)).toEqual(['First', 'Second']);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SubTask } from '../types';
+import { SubTaskConflictError, SheetExistsError, TaskConflictError, GrantConflictError, createTaskId, createSubTaskId, createGrantId, type Repository } from './repository';
+import type { OfflineQueue, QueuedWrite, QueueEntry } from './offlineQueue';
+
+export interface SyncedRepository extends Repository {
+    // Replays pending writes in the order they were made. Resolves once the queue has drained
+    // or a write could not be replayed.
+    replay(): Promise<void>;
+    retry(entryId: number): Promise<void>;
+    discard(entryId: number): Promise<void>;
+}
+
+const describeError = (err) => err?.result?.error?.message || err?.message || 'Unknown error';
+
+// Shows queued edits on a project's sub-tasks as if they had already been saved.
+const withQueuedChanges = (projectName: string, subTasks: SubTask[], writes: QueuedWrite[]) =>
+    writes.reduce((result, w) =>
+        w.kind === 'updateSubTask' && w.projectName === projectName
+            ? result.map(st => st.id === w.subTask.id ? { ...st, ...w.changes } : st)
+            : result,
+    subTasks);
+
+/**
+ * Wraps a repository so that writes which fail, or are made while offline, are kept in the
+ * offline queue instead of being lost. Reads overlay any queued edits, so the UI keeps
+ * showing them until they reach the backend or are discarded.
+ *
+ * Queued writes are replayed in the order they were made. One that fails holds back every
+ * write after it until it's retried or discarded, so a later edit never lands first.
+ */
+export const createSyncedRepository = (inner: Repository, queue: OfflineQueue): SyncedRepository => {
+    let replaying: Promise<void> | null = null;
+    // What the backend returned for replayed writes that a write() call is waiting on, by
+    // queue entry.
+    const waiting = new Set<number>();
+    const results = new Map<number, unknown>();
+
+    const apply = (write: QueuedWrite): Promise<unknown> => {
+        switch (write.kind) {
+            case 'addTask': return inner.addTask(write.task);
+            case 'updateTask': return inner.updateTask(write.task);
+            case 'deleteTask': return inner.deleteTask(write.task);
+            case 'addSubTasks': return inner.addSubTasks(write.projectName, write.subTasks);
+            case 'updateSubTask': return inner.updateSubTask(write.projectName, write.subTask, write.changes);
+            case 'addGrant': return inner.addGrant(write.grant);
+            case 'updateGrant': return inner.updateGrant(write.grant);
+            case 'appendAudit': return inner.appendAudit(write.entries);
+        }
+    };
+
+    const enqueue = (write: QueuedWrite, status: QueueEntry['status'], error: string | null = null) =>
+        queue.add({ write, status, error, createdAt: new Date().toISOString() });
+
+    const replay = () => {
+        replaying = replaying || (async () => {
+            // Queued edits to the same sub-task were made one after another, so each must be
+            // checked against the revision the previous one left behind.
+            const revisions = new Map<string, string>();
+            try {
+                // The queue is read again after each write, so writes queued meanwhile are
+                // replayed too.
+                for (let entry = (await queue.list())[0]; entry; entry = (await queue.list())[0]) {
+                    // Writes reach the backend strictly in the order they were made, so nothing
+                    // after a failed write goes ahead of it; it waits for a retry or discard.
+                    if (entry.status === 'failed') break;
+                    if (!navigator.onLine) break;
+                    let write = entry.write;
+                    if (write.kind === 'updateSubTask' && revisions.has(write.subTask.id)) {
+                        write = { ...write, subTask: { ...write.subTask, revision: revisions.get(write.subTask.id) } };
+                    }
+                    try {
+                        const result = await apply(write);
+                        if (write.kind === 'updateSubTask') {
+                            revisions.set(write.subTask.id, (result as SubTask).revision);
+                        }
+                        if (waiting.has(entry.id)) results.set(entry.id, result);
+                        await queue.remove(entry.id);
+                    } catch (err) {
+                        console.error('Failed to replay queued write:', err);
+                        if (!navigator.onLine) break;
+                        // Audit entries aren't worth holding up edits for, so they're dropped.
+                        if (write.kind === 'appendAudit') {
+                            await queue.remove(entry.id);
+                            continue;
+                        }
+                        await queue.put({ ...entry, status: 'failed', error: describeError(err) });
+                        break;
+                    }
+                }
+            } finally {
+                replaying = null;
+            }
+        })();
+        return replaying;
+    };
+
+    // Resolves with the backend's result, or with nothing when the write is still queued.
+    const write = async (write: QueuedWrite): Promise<unknown> => {
+        const entries = await queue.list();
+        // Anything already waiting, or failed and waiting for a retry, must reach the backend
+        // first, so queue behind it.
+        if (!navigator.onLine || entries.length > 0) {
+            const entry = await enqueue(write, 'pending');
+            if (!navigator.onLine) return undefined;
+            waiting.add(entry.id);
+            try {
+                await replay();
+                return results.get(entry.id);
+            } finally {
+                waiting.delete(entry.id);
+                results.delete(entry.id);
+            }
+        }
+        try {
+            return await apply(write);
+        } catch (err) {
+            // A conflict will not go away by retrying, so let the caller reload instead.
+            if (err instanceof SubTaskConflictError || err instanceof TaskConflictError || err instanceof GrantConflictError || err instanceof SheetExistsError) throw err;
+            // The audited layer reports a failed log write; it isn't kept to block later edits.
+            if (write.kind === 'appendAudit') throw err;
+            console.error('Write failed, keeping it in the offline queue:', err);
+            await enqueue(write, navigator.onLine ? 'failed' : 'pending', describeError(err));
+            return undefined;
+        }
+    };
+
+    const queuedWrites = async () => (await queue.list()).map(entry => entry.write);
+
+    return {
+        async listTasks() {
+            const [tasks, writes] = await Promise.all([inner.listTasks(), queuedWrites()]);
+            return writes.reduce((result, w) => {
+                // Matched by ID, as row numbers shift when jobs above are deleted.
+                if (w.kind === 'updateTask') return result.map(t => t.uid === w.task.uid ? { ...w.task, id: t.id } : t);
+                if (w.kind === 'deleteTask') return result.filter(t => t.uid !== w.task.uid);
+                return result;
+            }, tasks);
+        },
+
+        listTeam: () => inner.listTeam(),
+
+        // New records get their IDs before they're queued, so a write that is replayed after
+        // partly reaching the sheet finds what it already added instead of adding it twice.
+        async addTask(task) {
+            await write({ kind: 'addTask', task: { ...task, uid: task.uid || createTaskId() } });
+        },
+
+        async updateTask(task) {
+            await write({ kind: 'updateTask', task });
+        },
+
+        async deleteTask(task) {
+            await write({ kind: 'deleteTask', task });
+        },
+
+        async listSubTasks(projectName) {
+            const [subTasks, writes] = await Promise.all([inner.listSubTasks(projectName), queuedWrites()]);
+            return withQueuedChanges(projectName, subTasks, writes);
+        },
+
+        async listSubTasksForProjects(projectNames) {
+            const [byProject, writes] = await Promise.all([inner.listSubTasksForProjects(projectNames), queuedWrites()]);
+            return Object.fromEntries(Object.entries(byProject)
+                .map(([name, subTasks]) => [name, withQueuedChanges(name, subTasks, writes)]));
+        },
+
+        async addSubTasks(projectName, subTasks) {
+            await write({ kind: 'addSubTasks', projectName, subTasks: subTasks.map(st => ({ ...st, id: st.id || createSubTaskId() })) });
+        },
+
+        async updateSubTask(projectName, subTask, changes) {
+            // A queued edit has no saved row yet; replay carries each revision on to the next.
+            return (await write({ kind: 'updateSubTask', projectName, subTask, changes }) as SubTask | undefined) || null;
+        },
+
+        async listGrants() {
+            const [grants, writes] = await Promise.all([inner.listGrants(), queuedWrites()]);
+            return writes.reduce((result, w) =>
+                w.kind === 'updateGrant' ? result.map(g => g.id === w.grant.id ? { ...w.grant } : g) : result,
+            grants);
+        },
+
+        async addGrant(grant) {
+            await write({ kind: 'addGrant', grant: { ...grant, id: grant.id || createGrantId() } });
+        },
+
+        async updateGrant(grant) {
+            await write({ kind: 'updateGrant', grant });
+        },
+
+        // These need the backend there and then, so they aren't queued.
+        createProject: (projectName) => inner.createProject(projectName),
+        saveReport: (title, rows) => inner.saveReport(title, rows),
+        listTemplates: () => inner.listTemplates(),
+        addTemplate: (template) => inner.addTemplate(template),
+        // Queued like an edit, so the log follows the edits it records.
+        async appendAudit(entries) {
+            await write({ kind: 'appendAudit', entries });
+        },
+        listAudit: () => inner.listAudit(),
+
+        replay,
+
+        async retry(entryId) {
+            const entry = (await queue.list()).find(e => e.id === entryId);
+            if (!entry) return;
+            await queue.put({ ...entry, status: 'pending', error: null });
+            await replay();
+        },
+
+        async discard(entryId) {
+            await queue.remove(entryId);
+        },
+    };
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_TEMPLATES, templateLibrary, applyTemplate, projectToTemplate } from './templates';
+import { ROSTER, subTask } from './fixtures';
+
+const photoshoot = BUILT_IN_TEMPLATES.find(t => t.name === 'Photoshoot');
+
+describe('templateLibrary', () => {
+    it('lets a saved template replace the built-in one of the same name', () => {
+        const saved = { name: 'photoshoot', anchor: 'Start date', steps: [] };
+        const library = templateLibrary([saved]);
+        expect(library.filter(t => t.name.toLowerCase() === 'photoshoot')).toEqual([saved]);
+        expect(library).toHaveLength(BUILT_IN_TEMPLATES.length);
+    });
+});
+
+describe('applyTemplate', () => {
+    it('dates steps from the anchor date and assigns them by role', () => {
+        const subTasks = applyTemplate(photoshoot, '2025-11-10', ROSTER);
+        expect(subTasks[0]).toMatchObject({ name: 'Moodboard and brief', assignee: 'Taylor Trash', status: 'Todo', dueDate: '2025-10-27' });
+        expect(subTasks.find(st => st.name === 'Retouching')).toMatchObject({ assignee: 'Jess Queen', dueDate: '2025-11-17' });
+    });
+
+    it('leaves steps undated without an anchor date, and keeps roles nobody has', () => {
+        const [first] = applyTemplate(photoshoot, '', []);
+        expect(first).toMatchObject({ assignee: 'Producer', dueDate: '' });
+    });
+});
+
+describe('projectToTemplate', () => {
+    it('turns assignees into roles and due dates into days from the anchor', () => {
+        const template = projectToTemplate('Podcast', 'Start date', '2025-11-03', [
+            subTask('record', { name: 'Record', assignee: 'TT', dueDate: '2025-11-03' }),
+            subTask('edit', { name: 'Edit', assignee: 'jess@trashtv.productions', dueDate: '2025-11-07', notes: 'Two cameras' }),
+            subTask('post', { name: 'Post', assignee: 'Guest host' }),
+        ], ROSTER);
+        expect(template.steps).toEqual([
+            { name: 'Record', role: 'Producer', offsetDays: 0, notes: '' },
+            { name: 'Edit', role: 'Editor', offsetDays: 4, notes: 'Two cameras' },
+            { name: 'Post', role: 'Guest host', offsetDays: null, notes: '' },
+        ]);
+    });
+
+    it('round-trips through applyTemplate', () => {
+        const template = projectToTemplate('Podcast', 'Start date', '2025-11-03', [
+            subTask('edit', { name: 'Edit', assignee: 'Jess Queen', dueDate: '2025-11-07' }),
+        ], ROSTER);
+        expect(applyTemplate(template, '2025-12-01', ROSTER)[0]).toMatchObject({ name: 'Edit', assignee: 'Jess Queen', dueDate: '2025-12-05' });
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ProjectTemplate, TemplateStep, SubTask, NewSubTask, TeamMember } from '../types';
+import { resolveAssignee, canonicalAssignee } from './roster';
+import { isValidIsoDate, addDays, daysBetween } from '../utils/dates';
+
+// Project templates: the standard run of sub-tasks for a production format, dated relative to
+// the project's start or shoot date.
+
+export const TEMPLATE_ANCHORS = ['Shoot date', 'Start date'];
+
+// What a template's offsets count from when its rows don't say.
+export const DEFAULT_ANCHOR = 'Start date';
+
+const step = (name: string, role: string, offsetDays: number | null, notes = ''): TemplateStep =>
+    ({ name, role, offsetDays, notes });
+
+// The formats the team makes most often. A template saved under the same name replaces one.
+export const BUILT_IN_TEMPLATES: ProjectTemplate[] = [
+    {
+        name: 'Sweet Tea YouTube episode',
+        anchor: 'Shoot date',
+        steps: [
+            step('Confirm guest and shoot date', 'Producer', -14),
+            step('Research guest and write questions', 'Producer', -7),
+            step('Book studio, kit and crew', 'Producer', -7),
+            step('Shoot', 'Producer', 0),
+            step('Ingest and back up footage', 'Editor', 1),
+            step('Rough cut', 'Editor', 5),
+            step('Review and notes', 'Producer', 7),
+            step('Fine cut, grade and sound mix', 'Editor', 10),
+            step('Thumbnail and title', 'Editor', 11),
+            step('Guest sign off', 'Producer', 12),
+            step('Schedule upload and socials', 'Producer', 14),
+        ],
+    },
+    {
+        name: 'Photoshoot',
+        anchor: 'Shoot date',
+        steps: [
+            step('Moodboard and brief', 'Producer', -14),
+            step('Book photographer, studio and HMUA', 'Producer', -10),
+            step('Call sheet and model releases', 'Producer', -3),
+            step('Shoot', 'Producer', 0),
+            step('Pick selects', 'Producer', 2),
+            step('Retouching', 'Editor', 7),
+            step('Deliver final images and post', 'Producer', 10),
+        ],
+    },
+    {
+        name: 'Interview shoot',
+        anchor: 'Shoot date',
+        steps: [
+            step('Confirm interviewee and release form', 'Producer', -10),
+            step('Question list and brief', 'Producer', -5),
+            step('Book kit and location', 'Producer', -5),
+            step('Shoot interviews', 'Producer', 0),
+            step('Ingest and transcribe', 'Editor', 2),
+            step('Paper edit', 'Producer', 5),
+            step('Edit', 'Editor', 10),
+            step('Review and sign off', 'Producer', 12),
+        ],
+    },
+];
+
+// The saved templates and the built-in ones they haven't replaced, by name.
+export const templateLibrary = (saved: ProjectTemplate[]) => [
+    ...saved,
+    ...BUILT_IN_TEMPLATES.filter(builtIn => !saved.some(t => t.name.toLowerCase() === builtIn.name.toLowerCase())),
+].sort((a, b) => a.name.localeCompare(b.name));
+
+// Whoever on the roster has the step's role, otherwise the role itself (or a member's name, if
+// that's what the step names), so it can be reassigned by hand.
+const assigneeFor = (roster: TeamMember[], role: string) =>
+    roster.find(member => member.role && member.role.toLowerCase() === role.trim().toLowerCase())?.name
+        || canonicalAssignee(roster, role);
+
+/**
+ * The sub-tasks a template adds to a project, due relative to `anchorDate`. Without an anchor
+ * date they're left undated.
+ */
+export const applyTemplate = (template: ProjectTemplate, anchorDate: string, roster: TeamMember[]): NewSubTask[] =>
+    template.steps.map(s => ({
+        name: s.name,
+        assignee: assigneeFor(roster, s.role),
+        status: 'Todo',
+        notes: s.notes,
+        dueDate: isValidIsoDate(anchorDate) && s.offsetDays !== null ? addDays(anchorDate, s.offsetDays) : '',
+        recurrence: '',
+        dependsOn: [],
+    }));
+
+/**
+ * A template made from a project's sub-tasks, in their current order. Assignees become their
+ * roster role, and due dates days from `anchorDate`.
+ */
+export const projectToTemplate = (name: string, anchor: string, anchorDate: string, subTasks: SubTask[], roster: TeamMember[]): ProjectTemplate => ({
+    name,
+    anchor,
+    steps: subTasks.map(st => step(
+        st.name,
+        resolveAssignee(roster, st.assignee)?.role || canonicalAssignee(roster, st.assignee),
+        isValidIsoDate(anchorDate) && isValidIsoDate(st.dueDate) ? daysBetween(anchorDate, st.dueDate) : null,
+        st.notes,
+    )),
+});
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A top-level job on the Live Jobs list (one row of the Hub tab).
+export interface Task {
+    id: number; // Row number in the Hub tab, for display; it shifts when rows move
+    // Persistent ID stored alongside the row, so edits still find the job after rows move.
+    uid: string;
+    name: string;
+    priority: string;
+    assignee: string;
+    status: string;
+    startDate: string | null;
+    dueDate: string | null;
+    notes: string | null;
+    // How the job repeats, e.g. "Weekly" (see services/recurrence), or null for a one-off.
+    recurrence: string | null;
+}
+
+export type NewTask = Omit<Task, 'id' | 'uid'>;
+
+// A sub-task inside a project tab.
+export interface SubTask {
+    // Persistent ID stored alongside the row, so edits still find it after rows move.
+    id: string;
+    name: string;
+    assignee: string;
+    status: string;
+    notes: string;
+    dueDate: string;
+    recurrence: string; // Empty for a one-off
+    // IDs of the sub-tasks in the same project that have to be done first.
+    dependsOn: string[];
+    // Fingerprint of the row as last read, used to detect edits made elsewhere.
+    revision: string;
+}
+
+export type NewSubTask = Omit<SubTask, 'id' | 'revision'>;
+
+// Someone on the production team, as listed on the Team tab.
+export interface TeamMember {
+    name: string;
+    email: string;
+    // Other ways people write this member's name, e.g. a first name or initials.
+    aliases: string[];
+    role: string;
+}
+
+// A grant application, one row of the Grants tab.
+export interface Grant {
+    id: string; // The ID column, which stays with the grant whichever row it's on
+    name: string;
+    funder: string;
+    owner: string; // Who on the team is chasing it
+    amountRequested: number | null;
+    amountAwarded: number | null;
+    stage: string;
+    submissionDeadline: string | null;
+    // Dates the funder expects progress reports, e.g. after an award.
+    reportingDeadlines: string[];
+    contact: string;
+    notes: string | null;
+}
+
+export type NewGrant = Omit<Grant, 'id'>;
+
+// One sub-task of a project template.
+export interface TemplateStep {
+    name: string;
+    role: string; // Who usually does it, e.g. "Editor", matched against the roster when applied
+    // Days after the template's anchor date it's due (negative for before), or null if undated.
+    offsetDays: number | null;
+    notes: string;
+}
+
+// A standard run of sub-tasks for a production format, e.g. a photoshoot. Each step is a row
+// of the Templates tab.
+export interface ProjectTemplate {
+    name: string;
+    anchor: string; // What the offsets count from, e.g. "Shoot date"
+    steps: TemplateStep[];
+}
+
+// One field changed by one write made through the app, as kept in the audit log.
+export interface AuditEntry {
+    timestamp: string; // ISO 8601
+    user: string; // Email of whoever was signed in
+    sheet: string; // The tab written to
+    recordId: string; // ID of a job, sub-task or grant, or a template's name
+    record: string; // Name of the job, sub-task or grant
+    field: string; // '(added)' or '(deleted)' when a whole record was added or removed
+    oldValue: string;
+    newValue: string;
+    changeId: string; // Shared by every field the same write changed
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// True for a real calendar date written as YYYY-MM-DD (so 2025-02-30 is rejected).
+export const isValidIsoDate = (value: string) => {
+    const match = ISO_DATE_PATTERN.exec(value);
+    if (!match) return false;
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Formats a YYYY-MM-DD date for display, e.g. "Oct 24, 2025".
+export const formatDate = (value: string) =>
+    new Date(value + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Dates are handled as local-time days, so "today" matches the user's wall calendar.
+export const toIsoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseIsoDate = (value: string) => new Date(value + 'T00:00:00');
+
+const SHEET_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+// A date typed in the sheet, as YYYY-MM-DD or as the sheet shows it (DD/MM/YYYY), read as
+// YYYY-MM-DD so dates compare in order. Null for anything else.
+export const parseSheetDate = (value: string | null) => {
+    const text = (value || '').trim();
+    const match = SHEET_DATE_PATTERN.exec(text);
+    const iso = match ? `${match[3]}-${pad(+match[2])}-${pad(+match[1])}` : text;
+    return isValidIsoDate(iso) ? iso : null;
+};
+
+export const todayIso = () => toIsoDate(new Date());
+
+export const addDays = (value: string, days: number) => {
+    const date = parseIsoDate(value);
+    date.setDate(date.getDate() + days);
+    return toIsoDate(date);
+};
+
+// Whole days from `from` to `to`; negative when `to` is earlier.
+export const daysBetween = (from: string, to: string) =>
+    Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86400000);
+
+// Weeks start on Monday, as they do on the production calendar.
+export const startOfWeek = (value: string) => addDays(value, -((parseIsoDate(value).getDay() + 6) % 7));
+
+export const startOfMonth = (value: string) => value.slice(0, 8) + '01';
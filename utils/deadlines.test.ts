@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, it, expect } from 'vitest';
+import { dueState } from './deadlines';
+
+const TODAY = '2025-10-24';
+
+describe('dueState', () => {
+    it('is overdue, due today or due within the coming seven days', () => {
+        expect(dueState('2025-10-23', 'In Progress', TODAY)).toBe('overdue');
+        expect(dueState(TODAY, 'Todo', TODAY)).toBe('today');
+        expect(dueState('2025-10-31', 'Todo', TODAY)).toBe('week');
+        expect(dueState('2025-11-01', 'Todo', TODAY)).toBeNull();
+    });
+
+    it('is nothing for finished or undated work', () => {
+        expect(dueState('2025-10-01', 'Completed', TODAY)).toBeNull();
+        expect(dueState(null, 'Todo', TODAY)).toBeNull();
+        expect(dueState('next week', 'Todo', TODAY)).toBeNull();
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { isDone } from './status';
+import { isValidIsoDate, addDays } from './dates';
+
+// How close a job or sub-task is to its deadline. Finished and undated work has none.
+export type DueState = 'overdue' | 'today' | 'week';
+
+export const DUE_LABELS: Record<DueState, string> = {
+    overdue: 'Overdue',
+    today: 'Due today',
+    week: 'Due this week',
+};
+
+// "This week" is the coming seven days rather than the calendar week, so work due on Monday
+// still shows up on Friday.
+export const dueState = (dueDate: string | null, status: string, today: string): DueState | null => {
+    if (!isValidIsoDate(dueDate) || isDone(status)) return null;
+    if (dueDate < today) return 'overdue';
+    if (dueDate === today) return 'today';
+    return dueDate <= addDays(today, 7) ? 'week' : null;
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useEffect, useRef } from 'preact/hooks';
+import { dueNotifications, loadSentNotifications, saveSentNotifications, type DeadlineItem, type NotificationSettings } from '../services/deadlines';
+import { todayIso } from './dates';
+
+// How often to look for reminders that have come due, e.g. when the app is left open overnight.
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const notificationsSupported = () => 'Notification' in window;
+
+/**
+ * Sends a browser notification for each deadline reminder as it comes due, while the app is
+ * open and notifications are turned on and allowed. Clicking one brings the app forward and
+ * calls `onOpen` with the item.
+ */
+export const useDeadlineNotifications = (
+    items: DeadlineItem[],
+    settings: NotificationSettings,
+    onOpen: (item: DeadlineItem) => void,
+) => {
+    // Read through a ref so a new callback doesn't restart the timer.
+    const onOpenRef = useRef(onOpen);
+    onOpenRef.current = onOpen;
+
+    useEffect(() => {
+        if (!settings.enabled || !notificationsSupported()) return;
+        const check = () => {
+            if (Notification.permission !== 'granted') return;
+            const today = todayIso();
+            const sent = loadSentNotifications(today);
+            dueNotifications(items, settings, today)
+                .filter(reminder => !sent[reminder.key])
+                .forEach(reminder => {
+                    const notification = new Notification(reminder.title, { body: reminder.body, tag: reminder.key });
+                    notification.onclick = () => {
+                        window.focus();
+                        onOpenRef.current(reminder.item);
+                        notification.close();
+                    };
+                    sent[reminder.key] = today;
+                });
+            saveSentNotifications(sent);
+        };
+        check();
+        const timer = setInterval(check, CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [items, settings]);
+};
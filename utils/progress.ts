@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SubTask } from '../types';
+import { isDone } from './status';
+import { isValidIsoDate, todayIso } from './dates';
+
+export interface ProjectProgress {
+    total: number;
+    done: number;
+    overdue: number;
+    // The open sub-task due soonest from today on.
+    next: SubTask | null;
+}
+
+// Rolls a project's sub-tasks up into the summary shown on its job card.
+export const projectProgress = (subTasks: SubTask[]): ProjectProgress => {
+    const today = todayIso();
+    const open = subTasks.filter(st => !isDone(st.status));
+    const dated = open.filter(st => isValidIsoDate(st.dueDate));
+    const upcoming = dated.filter(st => st.dueDate >= today).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    return {
+        total: subTasks.length,
+        done: subTasks.length - open.length,
+        overdue: dated.filter(st => st.dueDate < today).length,
+        next: upcoming[0] || null,
+    };
+};
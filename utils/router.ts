@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useEffect, useCallback } from 'preact/hooks';
+
+// Client-side routes, kept in the URL hash (e.g. `#/calendar` or `#/project/Edit%20Suite`) so
+// deep links work on any static host without a server-side fallback. Filters stay in the
+// query string, next to the route.
+
+export const HUB_TABS = ['jobs', 'calendar', 'board', 'grants'] as const;
+
+export type HubTab = typeof HUB_TABS[number];
+
+export type Route =
+    | { view: 'hub'; tab: HubTab }
+    | { view: 'project'; project: string };
+
+export const parseRoute = (hash: string): Route => {
+    const path = hash.replace(/^#\/?/, '').replace(/\/$/, '');
+    const project = path.match(/^project\/(.+)$/);
+    if (project) {
+        try {
+            return { view: 'project', project: decodeURIComponent(project[1]) };
+        } catch {
+            // A malformed link; fall through to the hub.
+        }
+    }
+    return { view: 'hub', tab: HUB_TABS.find(tab => tab === path) || 'jobs' };
+};
+
+export const routeToHash = (route: Route) => {
+    if (route.view === 'project') return `#/project/${encodeURIComponent(route.project)}`;
+    return route.tab === 'jobs' ? '#/' : `#/${route.tab}`;
+};
+
+/**
+ * The current route and a way to change it. Navigating adds a history entry, so the browser's
+ * back button moves between views instead of leaving the app; `replace` swaps the current
+ * entry instead, e.g. when the open project is renamed.
+ */
+export const useRoute = () => {
+    const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+    useEffect(() => {
+        const handlePopState = () => setRoute(parseRoute(window.location.hash));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback((next: Route, { replace = false } = {}) => {
+        const url = `${window.location.pathname}${window.location.search}${routeToHash(next)}`;
+        if (replace) {
+            window.history.replaceState(window.history.state, '', url);
+        } else {
+            window.history.pushState({ fromApp: true }, '', url);
+        }
+        setRoute(next);
+    }, []);
+
+    // Back to wherever the user came from in the app, or to the hub when the page was opened
+    // straight from a link.
+    const goBack = useCallback(() => {
+        if (window.history.state?.fromApp) {
+            window.history.back();
+        } else {
+            navigate({ view: 'hub', tab: 'jobs' }, { replace: true });
+        }
+    }, [navigate]);
+
+    return { route, navigate, goBack };
+};
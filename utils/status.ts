@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The workflow shared by jobs and sub-tasks, in the order work usually moves through it.
+export const STATUSES = ['Todo', 'In Progress', 'Blocked', 'In Review', 'Done'] as const;
+
+export type Status = typeof STATUSES[number];
+
+// Which statuses each one may move to. Done can be reopened, and a mistaken tick can go
+// straight back to Todo.
+const TRANSITIONS: Record<Status, Status[]> = {
+    'Todo': ['In Progress', 'Blocked', 'Done'],
+    'In Progress': ['Todo', 'Blocked', 'In Review', 'Done'],
+    'Blocked': ['Todo', 'In Progress'],
+    'In Review': ['In Progress', 'Blocked', 'Done'],
+    'Done': ['Todo', 'In Progress', 'In Review'],
+};
+
+// What reopening a finished item moves it to when we don't know where it was before.
+export const REOPEN_STATUS: Status = 'In Progress';
+
+// Single-key shortcuts for setting a status on the focused row.
+export const STATUS_SHORTCUTS: Record<string, Status> = {
+    t: 'Todo',
+    p: 'In Progress',
+    b: 'Blocked',
+    r: 'In Review',
+    d: 'Done',
+};
+
+// Spellings people type into the sheet by hand.
+const STATUS_ALIASES: Record<string, Status> = {
+    'to do': 'Todo',
+    'not started': 'Todo',
+    'wip': 'In Progress',
+    'started': 'In Progress',
+    'on hold': 'Blocked',
+    'waiting': 'Blocked',
+    'review': 'In Review',
+    'needs review': 'In Review',
+    'complete': 'Done',
+    'completed': 'Done',
+    'finished': 'Done',
+};
+
+// Maps whatever is in the sheet onto the workflow, or null if it isn't recognised.
+export const normalizeStatus = (value: string | null | undefined): Status | null => {
+    const key = (value || '').trim().toLowerCase();
+    if (!key) return 'Todo';
+    return STATUSES.find(s => s.toLowerCase() === key) || STATUS_ALIASES[key] || null;
+};
+
+export const canTransition = (from: string, to: Status) => {
+    const current = normalizeStatus(from);
+    // Anything unrecognised may be moved onto the workflow.
+    if (!current) return true;
+    return current === to || TRANSITIONS[current].includes(to);
+};
+
+export const statusClass = (status: string) =>
+    `status-${(normalizeStatus(status) || status).replace(/\s+/g, '-').toLowerCase()}`;
+
+export const isDone = (status: string) => normalizeStatus(status) === 'Done';
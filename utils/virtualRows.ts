@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useState, useRef, useLayoutEffect } from 'preact/hooks';
+
+// Renders only the rows of a long table that are in or near view. Short tables are rendered
+// whole, since windowing them gains nothing and loses the browser's own find-in-page.
+
+const DEFAULT_ROW_HEIGHT = 49; // px, a sub-task row with its inputs
+const OVERSCAN = 10; // rows kept rendered above and below the visible ones
+
+export const VIRTUALIZE_THRESHOLD = 100;
+
+export const useVirtualRows = (count: number) => {
+    const containerRef = useRef<HTMLElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+    const [rowHeight, setRowHeight] = useState(DEFAULT_ROW_HEIGHT);
+    const isVirtual = count > VIRTUALIZE_THRESHOLD;
+
+    // Row height depends on fonts and inputs, so measure a rendered row rather than guess.
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!isVirtual || !container) return;
+        setViewportHeight(container.clientHeight);
+        const row = container.querySelector<HTMLElement>('tbody tr[data-row]');
+        if (row?.offsetHeight) setRowHeight(row.offsetHeight);
+    }, [isVirtual, count]);
+
+    const onScroll = (e) => setScrollTop(e.currentTarget.scrollTop);
+
+    if (!isVirtual) {
+        return { containerRef, onScroll, isVirtual, start: 0, end: count, padTop: 0, padBottom: 0 };
+    }
+    const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+    const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+    return {
+        containerRef,
+        onScroll,
+        isVirtual,
+        start,
+        end,
+        padTop: start * rowHeight,
+        padBottom: (count - end) * rowHeight,
+    };
+};